@@ -0,0 +1,85 @@
+import { Readable } from "stream";
+import Application from "../application";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("app.currentContext", () => {
+  it("is undefined without the asyncLocalStorage option", async () => {
+    const app = new Application();
+    let current: unknown = null;
+    app.use((ctx) => {
+      current = app.currentContext;
+      ctx.body = "ok";
+    });
+    await app.inject();
+    expect(current).toBeUndefined();
+  });
+
+  it("is undefined outside of a request", async () => {
+    const app = new Application({ asyncLocalStorage: true });
+    app.use((ctx) => {
+      ctx.body = "ok";
+    });
+    await app.inject();
+    expect(app.currentContext).toBeUndefined();
+  });
+
+  it("isolates concurrent requests across awaits, timers and stream events", async () => {
+    const app = new Application({ asyncLocalStorage: true });
+    const current = () => String(app.currentContext!.query.n);
+
+    app.use(async (ctx, next) => {
+      ctx.state.seen = [current()];
+      await next();
+      ctx.state.seen.push(current());
+      ctx.body = ctx.state.seen;
+    });
+    app.use(async (ctx) => {
+      const seen: string[] = ctx.state.seen;
+      // interleave the requests
+      await sleep(Math.random() * 20);
+      seen.push(current());
+
+      await new Promise<void>((resolve) => {
+        setTimeout(() => {
+          seen.push(current());
+          resolve();
+        }, Math.random() * 10);
+      });
+
+      await new Promise<void>((resolve, reject) => {
+        const stream = new Readable({ read() {} });
+        stream.on("data", () => seen.push(current()));
+        stream.on("end", () => {
+          seen.push(current());
+          resolve();
+        });
+        stream.on("error", reject);
+        setImmediate(() => {
+          stream.push("chunk");
+          stream.push(null);
+        });
+      });
+    });
+
+    const count = 20;
+    const responses = await Promise.all(
+      Array.from({ length: count }, (_, n) => app.inject({ url: `/?n=${n}` }))
+    );
+    responses.forEach((res, n) => {
+      expect(res.status).toBe(200);
+      expect(res.json()).toEqual(new Array(6).fill(String(n)));
+    });
+  });
+
+  it("accepts an existing AsyncLocalStorage", async () => {
+    const { AsyncLocalStorage } = await import("async_hooks");
+    const storage = new AsyncLocalStorage<any>();
+    const app = new Application({ asyncLocalStorage: storage });
+    app.use((ctx) => {
+      ctx.body = { same: storage.getStore() === ctx };
+    });
+    const res = await app.inject();
+    expect(res.json()).toEqual({ same: true });
+  });
+});
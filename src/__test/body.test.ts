@@ -0,0 +1,161 @@
+import { Readable } from "stream";
+import Application from "../application";
+
+function createApp(parse: (ctx) => Promise<any>) {
+  const app = new Application({ silent: true });
+  app.use(async (ctx) => {
+    ctx.body = { body: await parse(ctx) };
+  });
+  return app;
+}
+
+function multipart(boundary: string, parts: string[]) {
+  return (
+    parts.map((part) => `--${boundary}\r\n${part}\r\n`).join("") +
+    `--${boundary}--\r\n`
+  );
+}
+
+describe("request body limits", () => {
+  it("rejects a declared Content-Length above the limit", async () => {
+    const app = createApp((ctx) => ctx.request.json({ limit: "10b" }));
+    const res = await app.inject({
+      method: "POST",
+      body: { name: "a value longer than ten bytes" },
+    });
+    expect(res.status).toBe(413);
+  });
+
+  it("rejects chunked bodies once they exceed the limit", async () => {
+    const app = createApp((ctx) => ctx.request.text({ limit: 16 }));
+    const res = await app.inject({
+      method: "POST",
+      headers: { "content-type": "text/plain" },
+      body: Readable.from([Buffer.alloc(10, "a"), Buffer.alloc(10, "b")]),
+    });
+    expect(res.status).toBe(413);
+  });
+
+  it("parses bodies within the limit", async () => {
+    const app = createApp((ctx) => ctx.request.json({ limit: "1kb" }));
+    const res = await app.inject({ method: "POST", body: { a: 1 } });
+    expect(res.status).toBe(200);
+    expect(res.json()).toEqual({ body: { a: 1 } });
+  });
+
+  it("applies the 56kb default to urlencoded bodies", async () => {
+    const app = createApp((ctx) => ctx.request.form());
+    const res = await app.inject({
+      method: "POST",
+      headers: { "content-type": "application/x-www-form-urlencoded" },
+      body: `a=${"x".repeat(57 * 1024)}`,
+    });
+    expect(res.status).toBe(413);
+  });
+
+  it("rejects a body shorter than its Content-Length", async () => {
+    const app = createApp((ctx) => ctx.request.text());
+    const res = await app.inject({
+      method: "POST",
+      headers: { "content-type": "text/plain", "content-length": 10 },
+      body: Readable.from([Buffer.from("short")]),
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it("only accepts objects and arrays as strict JSON", async () => {
+    const app = createApp((ctx) => ctx.request.json());
+    const res = await app.inject({
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: '"string"',
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it("limits the size of multipart files", async () => {
+    const app = createApp((ctx) => ctx.request.formData({ maxFileSize: 8 }));
+    const res = await app.inject({
+      method: "POST",
+      headers: { "content-type": "multipart/form-data; boundary=XX" },
+      body: multipart("XX", [
+        'Content-Disposition: form-data; name="f"; filename="a.txt"\r\n\r\n0123456789',
+      ]),
+    });
+    expect(res.status).toBe(413);
+  });
+
+  it("limits the number of multipart fields", async () => {
+    const app = createApp((ctx) => ctx.request.formData({ maxFields: 1 }));
+    const res = await app.inject({
+      method: "POST",
+      headers: { "content-type": "multipart/form-data; boundary=XX" },
+      body: multipart("XX", [
+        'Content-Disposition: form-data; name="a"\r\n\r\n1',
+        'Content-Disposition: form-data; name="b"\r\n\r\n2',
+      ]),
+    });
+    expect(res.status).toBe(413);
+  });
+
+  it("limits the total size of multipart fields", async () => {
+    const app = createApp((ctx) =>
+      ctx.request.formData({ maxFieldSize: 8, maxFieldsSize: 12 })
+    );
+    const res = await app.inject({
+      method: "POST",
+      headers: { "content-type": "multipart/form-data; boundary=XX" },
+      body: multipart("XX", [
+        'Content-Disposition: form-data; name="a"\r\n\r\n12345678',
+        'Content-Disposition: form-data; name="b"\r\n\r\n12345678',
+      ]),
+    });
+    expect(res.status).toBe(413);
+  });
+
+  it("limits the total size of multipart files", async () => {
+    const app = createApp((ctx) =>
+      ctx.request.formData({ maxFileSize: 8, maxTotalFileSize: 12 })
+    );
+    const res = await app.inject({
+      method: "POST",
+      headers: { "content-type": "multipart/form-data; boundary=XX" },
+      body: multipart("XX", [
+        'Content-Disposition: form-data; name="a"; filename="a.txt"\r\n\r\n12345678',
+        'Content-Disposition: form-data; name="b"; filename="b.txt"\r\n\r\n12345678',
+      ]),
+    });
+    expect(res.status).toBe(413);
+  });
+
+  it("limits the number of multipart files by default", async () => {
+    const app = createApp((ctx) => ctx.request.formData());
+    const res = await app.inject({
+      method: "POST",
+      headers: { "content-type": "multipart/form-data; boundary=XX" },
+      body: multipart(
+        "XX",
+        Array.from(
+          { length: 101 },
+          (_, i) =>
+            `Content-Disposition: form-data; name="f"; filename="${i}.txt"\r\n\r\nx`
+        )
+      ),
+    });
+    expect(res.status).toBe(413);
+  });
+
+  it("answers a 500 when an upload can't be written", async () => {
+    const app = createApp((ctx) =>
+      ctx.request.formData({ uploadDir: "/nonexistent/upload/dir" })
+    );
+    const res = await app.inject({
+      method: "POST",
+      headers: { "content-type": "multipart/form-data; boundary=XX" },
+      body: multipart("XX", [
+        'Content-Disposition: form-data; name="f"; filename="a.txt"\r\n\r\nabc',
+      ]),
+    });
+    expect(res.status).toBe(500);
+  });
+});
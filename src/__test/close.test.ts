@@ -0,0 +1,134 @@
+import http from "http";
+import { AddressInfo } from "net";
+import Application from "../application";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// closed after each test, even when it fails
+let apps: Application<any, any>[] = [];
+
+afterEach(async () => {
+  await Promise.all(apps.map((app) => app.close({ timeout: 0 })));
+  apps = [];
+});
+
+function listen(app: Application<any, any>): Promise<number> {
+  apps.push(app);
+  return new Promise((resolve) => {
+    const server = app.listen(0, "127.0.0.1", () =>
+      resolve((server.address() as AddressInfo).port)
+    );
+  });
+}
+
+function get(
+  port: number,
+  path: string = "/",
+  agent: http.Agent | false = false
+): Promise<{
+  status?: number;
+  headers: http.IncomingHttpHeaders;
+  text: string;
+}> {
+  return new Promise((resolve, reject) => {
+    http
+      .get({ host: "127.0.0.1", port, path, agent }, (res) => {
+        let text = "";
+        res.setEncoding("utf8");
+        res.on("data", (chunk) => (text += chunk));
+        res.on("end", () =>
+          resolve({ status: res.statusCode, headers: res.headers, text })
+        );
+        res.on("error", reject);
+      })
+      .on("error", reject);
+  });
+}
+
+/**
+ * Promise resolved by the middleware once a request came in.
+ */
+function arrival() {
+  let arrived: () => void = () => {};
+  const promise = new Promise<void>((resolve) => (arrived = resolve));
+  return { promise, arrived };
+}
+
+describe("app.close()", () => {
+  it("waits for the requests in flight", async () => {
+    const app = new Application();
+    const events: string[] = [];
+    const request = arrival();
+    app.on("closing", () => events.push("closing"));
+    app.on("closed", () => events.push("closed"));
+    app.use(async (ctx) => {
+      request.arrived();
+      await sleep(50);
+      ctx.body = { inFlight: app.inFlight };
+    });
+    const port = await listen(app);
+
+    const pending = get(port);
+    await request.promise;
+    expect(app.inFlight).toBe(1);
+    await app.close();
+    expect(events).toEqual(["closing", "closed"]);
+
+    const res = await pending;
+    expect(res.status).toBe(200);
+    expect(res.headers.connection).toBe("close");
+    expect(JSON.parse(res.text)).toEqual({ inFlight: 1 });
+    expect(app.inFlight).toBe(0);
+  });
+
+  it("closes idle keep-alive connections right away", async () => {
+    const app = new Application();
+    app.use((ctx) => {
+      ctx.body = "ok";
+    });
+    const port = await listen(app);
+    const agent = new http.Agent({ keepAlive: true });
+    try {
+      await get(port, "/", agent);
+      const started = Date.now();
+      await app.close({ timeout: 5000 });
+      expect(Date.now() - started).toBeLessThan(1000);
+    } finally {
+      agent.destroy();
+    }
+  });
+
+  it("refuses new connections", async () => {
+    const app = new Application();
+    app.use((ctx) => {
+      ctx.body = "ok";
+    });
+    const port = await listen(app);
+    await app.close();
+    await expect(get(port)).rejects.toMatchObject({ code: "ECONNREFUSED" });
+  });
+
+  it("destroys the connections left after the timeout", async () => {
+    const app = new Application({ silent: true });
+    const request = arrival();
+    app.use(() => {
+      request.arrived();
+      return new Promise(() => {});
+    });
+    const port = await listen(app);
+
+    const pending = get(port).catch((err) => err);
+    await request.promise;
+    const started = Date.now();
+    await app.close({ timeout: 50 });
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(await pending).toMatchObject({ code: "ECONNRESET" });
+  });
+
+  it("returns the same promise when called again", async () => {
+    const app = new Application();
+    await listen(app);
+    expect(app.close()).toBe(app.close());
+    await app.close();
+  });
+});
@@ -0,0 +1,94 @@
+import zlib from "zlib";
+import Application from "../application";
+import { CompressOptions } from "../compress";
+
+const TEXT = "hello world ".repeat(200);
+
+function createApp(compress: boolean | CompressOptions = true, etag = false) {
+  const app = new Application({ compress, etag });
+  app.use((ctx) => {
+    ctx.type = "text";
+    ctx.body = ctx.query.small ? "small" : TEXT;
+  });
+  return app;
+}
+
+describe("response compression", () => {
+  it("picks the encoding the client prefers", async () => {
+    const res = await createApp().inject({
+      headers: { "accept-encoding": "gzip;q=1, br;q=0.5" },
+    });
+    expect(res.headers["content-encoding"]).toBe("gzip");
+    expect(res.headers.vary).toBe("Accept-Encoding");
+    expect(res.headers["content-length"]).toBeUndefined();
+    expect(zlib.gunzipSync(res.body).toString()).toBe(TEXT);
+  });
+
+  it("prefers brotli without preferences", async () => {
+    const res = await createApp().inject({
+      headers: { "accept-encoding": "*" },
+    });
+    expect(res.headers["content-encoding"]).toBe("br");
+    expect(zlib.brotliDecompressSync(res.body).toString()).toBe(TEXT);
+  });
+
+  it("skips disabled encodings", async () => {
+    const res = await createApp({ br: false, gzip: false }).inject({
+      headers: { "accept-encoding": "br, gzip, deflate" },
+    });
+    expect(res.headers["content-encoding"]).toBe("deflate");
+    expect(zlib.inflateSync(res.body).toString()).toBe(TEXT);
+  });
+
+  it("leaves bodies below the threshold alone", async () => {
+    const res = await createApp().inject({
+      url: "/?small=1",
+      headers: { "accept-encoding": "gzip" },
+    });
+    expect(res.headers["content-encoding"]).toBeUndefined();
+    expect(res.text).toBe("small");
+  });
+
+  it("respects Cache-Control: no-transform", async () => {
+    const app = new Application({ compress: true });
+    app.use((ctx) => {
+      ctx.set("Cache-Control", "no-transform");
+      ctx.body = TEXT;
+    });
+    const res = await app.inject({ headers: { "accept-encoding": "gzip" } });
+    expect(res.headers["content-encoding"]).toBeUndefined();
+  });
+
+  it("lets ctx.compress skip a response", async () => {
+    const app = new Application({ compress: true });
+    app.use((ctx) => {
+      ctx.compress = false;
+      ctx.body = TEXT;
+    });
+    const res = await app.inject({ headers: { "accept-encoding": "gzip" } });
+    expect(res.headers["content-encoding"]).toBeUndefined();
+  });
+
+  it("serves identity to clients refusing the encodings", async () => {
+    const res = await createApp().inject({
+      headers: { "accept-encoding": "identity" },
+    });
+    expect(res.headers["content-encoding"]).toBeUndefined();
+    expect(res.text).toBe(TEXT);
+  });
+
+  it("weakens strong ETags of compressed responses", async () => {
+    const app = createApp(true, true);
+    const res = await app.inject({ headers: { "accept-encoding": "gzip" } });
+    const etag = String(res.headers.etag);
+    expect(etag).toMatch(/^W\/"/);
+
+    const plain = await app.inject();
+    expect(plain.headers.etag).toBe(etag.slice(2));
+
+    const cached = await app.inject({
+      headers: { "accept-encoding": "gzip", "if-none-match": etag },
+    });
+    expect(cached.status).toBe(304);
+  });
+});
@@ -0,0 +1,99 @@
+import Application from "../application";
+import { Keygrip, parseCookies } from "../cookies";
+
+function createApp(keys: string[], value: string = "tobi") {
+  const app = new Application({ silent: true, keys });
+  app.get("/set", (ctx) => {
+    ctx.cookies.set("user", value, { signed: true });
+    ctx.status = 204;
+  });
+  app.get("/get", (ctx) => {
+    ctx.body = { user: ctx.cookies.get("user", { signed: true }) || null };
+  });
+  return app;
+}
+
+/**
+ * Turn Set-Cookie values into a Cookie request header.
+ */
+function cookieHeader(setCookie: string | string[] | undefined) {
+  return ([] as string[])
+    .concat(setCookie || [])
+    .map((cookie) => cookie.split(";")[0])
+    .join("; ");
+}
+
+describe("Keygrip", () => {
+  it("signs with the first key and verifies against all of them", () => {
+    const old = new Keygrip(["old"]);
+    const keys = new Keygrip(["new", "old"]);
+    const digest = old.sign("data");
+    expect(digest).not.toMatch(/[=+/]/);
+    expect(keys.index("data", digest)).toBe(1);
+    expect(keys.index("data", keys.sign("data"))).toBe(0);
+    expect(keys.verify("other", digest)).toBe(false);
+  });
+
+  it("requires keys", () => {
+    expect(() => new Keygrip([])).toThrow("Keys must be provided.");
+  });
+});
+
+describe("signed cookies", () => {
+  it("round trips a signed cookie", async () => {
+    const app = createApp(["secret"]);
+    const set = await app.inject({ url: "/set" });
+    const cookie = cookieHeader(set.headers["set-cookie"]);
+    expect(Object.keys(parseCookies(cookie))).toEqual(["user", "user.sig"]);
+
+    const res = await app.inject({ url: "/get", headers: { cookie } });
+    expect(res.json()).toEqual({ user: "tobi" });
+  });
+
+  it("round trips a signed value containing %", async () => {
+    const app = createApp(["secret"], "a%20b");
+    const set = await app.inject({ url: "/set" });
+    const cookie = cookieHeader(set.headers["set-cookie"]);
+
+    const res = await app.inject({ url: "/get", headers: { cookie } });
+    expect(res.json()).toEqual({ user: "a%20b" });
+    expect(res.headers["set-cookie"]).toBeUndefined();
+  });
+
+  it("rejects a tampered value and clears its signature", async () => {
+    const app = createApp(["secret"]);
+    const set = await app.inject({ url: "/set" });
+    const cookie = cookieHeader(set.headers["set-cookie"]).replace(
+      "user=tobi",
+      "user=admin"
+    );
+
+    const res = await app.inject({ url: "/get", headers: { cookie } });
+    expect(res.json()).toEqual({ user: null });
+    expect(String(res.headers["set-cookie"])).toMatch(
+      /^user\.sig=; .*expires=Thu, 01 Jan 1970/
+    );
+  });
+
+  it("rejects a cookie without a signature", async () => {
+    const app = createApp(["secret"]);
+    const res = await app.inject({
+      url: "/get",
+      headers: { cookie: "user=tobi" },
+    });
+    expect(res.json()).toEqual({ user: null });
+  });
+
+  it("accepts an older key and refreshes the signature", async () => {
+    const set = await createApp(["old"]).inject({ url: "/set" });
+    const cookie = cookieHeader(set.headers["set-cookie"]);
+
+    const res = await createApp(["new", "old"]).inject({
+      url: "/get",
+      headers: { cookie },
+    });
+    expect(res.json()).toEqual({ user: "tobi" });
+    const refreshed = parseCookies(cookieHeader(res.headers["set-cookie"]));
+    expect(refreshed["user.sig"]).toBe(new Keygrip(["new"]).sign("user=tobi"));
+  });
+});
@@ -0,0 +1,158 @@
+import { Readable } from "stream";
+import Application from "../application";
+import { cors, CorsOptions } from "../cors";
+
+function createApp(opts: CorsOptions) {
+  const app = new Application({ silent: true });
+  app.use(cors(opts));
+  app.use((ctx) => {
+    ctx.body = "ok";
+  });
+  return app;
+}
+
+const ORIGIN = "https://app.example.com";
+
+describe("cors()", () => {
+  it("allows any origin by default", async () => {
+    const res = await createApp({}).inject({ headers: { origin: ORIGIN } });
+    expect(res.headers["access-control-allow-origin"]).toBe("*");
+    expect(res.headers.vary).toBe("Origin");
+  });
+
+  it("leaves requests without an Origin alone", async () => {
+    const res = await createApp({}).inject();
+    expect(res.headers["access-control-allow-origin"]).toBeUndefined();
+    expect(res.headers.vary).toBe("Origin");
+  });
+
+  it("echoes allowed origins of a list", async () => {
+    const app = createApp({
+      origin: ["https://example.com", /\.example\.com$/],
+      credentials: true,
+      exposeHeaders: ["X-Request-Id"],
+    });
+    const res = await app.inject({ headers: { origin: ORIGIN } });
+    expect(res.headers["access-control-allow-origin"]).toBe(ORIGIN);
+    expect(res.headers["access-control-allow-credentials"]).toBe("true");
+    expect(res.headers["access-control-expose-headers"]).toBe("X-Request-Id");
+  });
+
+  it("doesn't allow other origins", async () => {
+    const app = createApp({ origin: "https://example.com" });
+    const res = await app.inject({
+      headers: { origin: "https://evil.example" },
+    });
+    expect(res.status).toBe(200);
+    expect(res.headers["access-control-allow-origin"]).toBeUndefined();
+  });
+
+  it("asks predicates", async () => {
+    const app = createApp({
+      origin: (origin) => origin.endsWith(".example.com"),
+    });
+    const allowed = await app.inject({ headers: { origin: ORIGIN } });
+    expect(allowed.headers["access-control-allow-origin"]).toBe(ORIGIN);
+    const denied = await app.inject({ headers: { origin: "https://a.test" } });
+    expect(denied.headers["access-control-allow-origin"]).toBeUndefined();
+  });
+
+  it("rejects credentials with a wildcard origin", () => {
+    expect(() => cors({ credentials: true })).toThrow(TypeError);
+    expect(() => cors({ origin: "*", credentials: true })).toThrow(TypeError);
+  });
+
+  describe("preflights", () => {
+    it("answers 204 with the allowed methods and headers", async () => {
+      const app = createApp({ origin: ORIGIN, maxAge: 600 });
+      const res = await app.inject({
+        method: "OPTIONS",
+        headers: {
+          origin: ORIGIN,
+          "access-control-request-method": "PUT",
+          "access-control-request-headers": "X-Token",
+        },
+      });
+      expect(res.status).toBe(204);
+      expect(res.headers["access-control-allow-methods"]).toBe(
+        "GET,HEAD,PUT,POST,DELETE,PATCH"
+      );
+      expect(res.headers["access-control-allow-headers"]).toBe("X-Token");
+      expect(res.headers["access-control-max-age"]).toBe("600");
+      expect(res.headers.vary).toBe("Origin, Access-Control-Request-Headers");
+    });
+
+    it("answers Private Network Access preflights when enabled", async () => {
+      const app = createApp({ origin: ORIGIN, privateNetworkAccess: true });
+      const res = await app.inject({
+        method: "OPTIONS",
+        headers: {
+          origin: ORIGIN,
+          "access-control-request-method": "GET",
+          "access-control-request-private-network": "true",
+        },
+      });
+      expect(res.headers["access-control-allow-private-network"]).toBe("true");
+    });
+
+    it("passes OPTIONS requests which aren't preflights on", async () => {
+      const res = await createApp({}).inject({
+        method: "OPTIONS",
+        headers: { origin: ORIGIN },
+      });
+      expect(res.status).toBe(200);
+      expect(res.text).toBe("ok");
+    });
+  });
+
+  describe("on errors", () => {
+    it("keeps the headers of thrown errors", async () => {
+      const app = new Application({ silent: true });
+      app.use(cors({ origin: ORIGIN }));
+      app.use((ctx) => {
+        ctx.throw(400);
+      });
+      const res = await app.inject({ headers: { origin: ORIGIN } });
+      expect(res.status).toBe(400);
+      expect(res.headers["access-control-allow-origin"]).toBe(ORIGIN);
+      expect(res.headers.vary).toBe("Origin");
+    });
+
+    it("keeps them on app timeouts", async () => {
+      const app = new Application({ silent: true, timeout: 10 });
+      app.use(cors({ origin: ORIGIN }));
+      app.use(() => new Promise((resolve) => setTimeout(resolve, 100)));
+      const res = await app.inject({ headers: { origin: ORIGIN } });
+      expect(res.status).toBe(503);
+      expect(res.headers["access-control-allow-origin"]).toBe(ORIGIN);
+    });
+
+    it("keeps them on stream errors", async () => {
+      const app = new Application({ silent: true });
+      app.use(cors({ origin: ORIGIN }));
+      app.use((ctx) => {
+        ctx.body = new Readable({
+          read() {
+            this.destroy(new Error("boom"));
+          },
+        });
+      });
+      const res = await app.inject({ headers: { origin: ORIGIN } });
+      expect(res.status).toBe(500);
+      expect(res.headers["access-control-allow-origin"]).toBe(ORIGIN);
+    });
+
+    it("varies errors on the Origin of disallowed origins", async () => {
+      const app = new Application({ silent: true });
+      app.use(cors({ origin: ORIGIN }));
+      app.use((ctx) => {
+        ctx.throw(400);
+      });
+      const res = await app.inject({
+        headers: { origin: "https://evil.example" },
+      });
+      expect(res.headers["access-control-allow-origin"]).toBeUndefined();
+      expect(res.headers.vary).toBe("Origin");
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { Readable } from "stream";
+import Application from "../application";
+
+/**
+ * Answer with what the app saw of the request.
+ */
+function echo() {
+  const app = new Application();
+  app.use(async (ctx) => {
+    ctx.body = {
+      method: ctx.method,
+      url: ctx.url,
+      ip: ctx.ip,
+      protocol: ctx.protocol,
+      headers: ctx.headers,
+      body: ctx.method === "GET" ? undefined : await ctx.request.text(),
+    };
+  });
+  return app;
+}
+
+describe("app.inject()", () => {
+  it("sends a GET to / by default", async () => {
+    const res = await echo().inject();
+    expect(res.status).toBe(200);
+    expect(res.statusMessage).toBe("OK");
+    expect(res.headers["content-type"]).toBe("application/json; charset=utf-8");
+    expect(res.json()).toMatchObject({
+      method: "GET",
+      url: "/",
+      ip: "127.0.0.1",
+      protocol: "http",
+      headers: { host: "localhost" },
+    });
+  });
+
+  it("sends objects as JSON", async () => {
+    const res = await echo().inject({
+      method: "post",
+      url: "/users?x=1",
+      body: { name: "tj" },
+    });
+    expect(res.json()).toMatchObject({
+      method: "POST",
+      url: "/users?x=1",
+      headers: {
+        "content-type": "application/json",
+        "content-length": "13",
+      },
+      body: '{"name":"tj"}',
+    });
+  });
+
+  it("streams bodies chunked", async () => {
+    const res = await echo().inject({
+      method: "PUT",
+      headers: { "Content-Type": "text/plain" },
+      body: Readable.from([Buffer.from("a"), Buffer.from("b")]),
+    });
+    expect(res.json()).toMatchObject({
+      headers: { "content-type": "text/plain", "transfer-encoding": "chunked" },
+      body: "ab",
+    });
+  });
+
+  it("fakes the connection", async () => {
+    const res = await echo().inject({
+      remoteAddress: "10.0.0.7",
+      encrypted: true,
+    });
+    expect(res.json()).toMatchObject({ ip: "10.0.0.7", protocol: "https" });
+  });
+
+  it("decodes chunked responses and their trailers", async () => {
+    const app = new Application();
+    app.use((ctx) => {
+      ctx.response.setTrailer("Server-Timing", "db;dur=53");
+      ctx.body = Readable.from(["hello ", "world"]);
+    });
+    const res = await app.inject();
+    expect(res.headers["transfer-encoding"]).toBe("chunked");
+    expect(res.headers.trailer).toBe("Server-Timing");
+    expect(res.text).toBe("hello world");
+    expect(res.trailers).toEqual({ "server-timing": "db;dur=53" });
+  });
+
+  it("keeps repeated headers", async () => {
+    const app = new Application();
+    app.use((ctx) => {
+      ctx.append("Set-Cookie", "a=1");
+      ctx.append("Set-Cookie", "b=2");
+      ctx.status = 204;
+    });
+    const res = await app.inject();
+    expect(res.status).toBe(204);
+    expect(res.headers["set-cookie"]).toEqual(["a=1", "b=2"]);
+    expect(res.body.length).toBe(0);
+  });
+
+  it("skips informational responses", async () => {
+    const app = new Application();
+    app.use((ctx) => {
+      ctx.res.writeContinue();
+      ctx.body = "done";
+    });
+    const res = await app.inject();
+    expect(res.status).toBe(200);
+    expect(res.text).toBe("done");
+  });
+});
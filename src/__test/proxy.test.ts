@@ -0,0 +1,146 @@
+import Application from "../application";
+import { compileTrust, parseForwarded } from "../proxy";
+
+/**
+ * Answer with what the request tells about the client.
+ */
+function createApp(options: ConstructorParameters<typeof Application>[0]) {
+  const app = new Application(options);
+  app.use((ctx) => {
+    ctx.body = {
+      ip: ctx.ip,
+      ips: ctx.ips,
+      protocol: ctx.protocol,
+      host: ctx.host,
+    };
+  });
+  return app;
+}
+
+describe("compileTrust()", () => {
+  it("matches CIDR ranges and aliases", () => {
+    const trust = compileTrust("loopback, 10.0.0.0/8, 2001:db8::/32");
+    expect(trust("127.0.0.1", 0)).toBe(true);
+    expect(trust("::1", 0)).toBe(true);
+    expect(trust("10.200.0.1", 0)).toBe(true);
+    expect(trust("::ffff:10.0.0.1", 0)).toBe(true);
+    expect(trust("2001:db8::17", 0)).toBe(true);
+    expect(trust("11.0.0.1", 0)).toBe(false);
+    expect(trust("not an ip", 0)).toBe(false);
+  });
+
+  it("trusts a number of hops", () => {
+    const trust = compileTrust(2);
+    expect(trust("1.1.1.1", 1)).toBe(true);
+    expect(trust("1.1.1.1", 2)).toBe(false);
+  });
+
+  it("rejects invalid ranges", () => {
+    expect(() => compileTrust("10.0.0.0/33")).toThrow(TypeError);
+    expect(() => compileTrust("nope")).toThrow(TypeError);
+  });
+});
+
+describe("parseForwarded()", () => {
+  it("parses quoted values and elements", () => {
+    expect(
+      parseForwarded(
+        'for="[2001:db8::17]:4711";proto=https, for=10.0.0.1;host="a\\"b"'
+      )
+    ).toEqual([
+      { for: "[2001:db8::17]:4711", proto: "https" },
+      { for: "10.0.0.1", host: 'a"b' },
+    ]);
+  });
+
+  it("skips what can't be parsed", () => {
+    expect(parseForwarded("garbage;for=1.2.3.4, ,")).toEqual([
+      { for: "1.2.3.4" },
+    ]);
+  });
+});
+
+describe("trusted proxies", () => {
+  it("ignores the forwarding headers by default", async () => {
+    const res = await createApp({}).inject({
+      remoteAddress: "10.0.0.1",
+      headers: {
+        "x-forwarded-for": "203.0.113.9",
+        "x-forwarded-proto": "https",
+        "x-forwarded-host": "evil.example",
+      },
+    });
+    expect(res.json()).toEqual({
+      ip: "10.0.0.1",
+      ips: [],
+      protocol: "http",
+      host: "localhost",
+    });
+  });
+
+  it("walks the chain up to the first untrusted hop", async () => {
+    const res = await createApp({ trustProxy: "10.0.0.0/8" }).inject({
+      remoteAddress: "10.0.0.1",
+      headers: {
+        "x-forwarded-for": "198.51.100.1, 203.0.113.9, 10.0.0.2",
+        "x-forwarded-proto": "http, https, https",
+      },
+    });
+    expect(res.json()).toMatchObject({
+      ip: "203.0.113.9",
+      ips: ["203.0.113.9", "10.0.0.2"],
+      protocol: "https",
+    });
+  });
+
+  it("limits the hops with maxIpsCount", async () => {
+    const res = await createApp({ proxy: true, maxIpsCount: 1 }).inject({
+      headers: { "x-forwarded-for": "198.51.100.1, 203.0.113.9" },
+    });
+    expect(res.json().ip).toBe("203.0.113.9");
+  });
+
+  it("trusts X-Forwarded-Proto and -Host without X-Forwarded-For", async () => {
+    const res = await createApp({ proxy: true }).inject({
+      headers: {
+        "x-forwarded-proto": "https",
+        "x-forwarded-host": "example.com",
+      },
+    });
+    expect(res.json()).toMatchObject({
+      protocol: "https",
+      host: "example.com",
+    });
+  });
+
+  it("doesn't read Forwarded unless configured", async () => {
+    const res = await createApp({ trustProxy: "loopback" }).inject({
+      headers: {
+        forwarded: "for=198.51.100.1;proto=https",
+        "x-forwarded-for": "203.0.113.9",
+      },
+    });
+    expect(res.json()).toMatchObject({
+      ip: "203.0.113.9",
+      protocol: "http",
+    });
+  });
+
+  it("reads Forwarded when it is the proxyIpHeader", async () => {
+    const res = await createApp({
+      trustProxy: "loopback",
+      proxyIpHeader: "Forwarded",
+    }).inject({
+      headers: {
+        forwarded: 'for="[2001:db8::17]:4711";proto=HTTPS;host=example.com',
+        "x-forwarded-for": "203.0.113.9",
+      },
+    });
+    expect(res.json()).toEqual({
+      ip: "2001:db8::17",
+      ips: ["2001:db8::17"],
+      protocol: "https",
+      host: "example.com",
+    });
+  });
+});
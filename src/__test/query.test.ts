@@ -0,0 +1,135 @@
+import Application from "../application";
+import { QueryOptions } from "../request";
+import { RequestSchema, schema } from "../validate";
+
+function query(url: string, queryOptions?: QueryOptions) {
+  const app = new Application({ queryOptions });
+  app.use((ctx) => {
+    ctx.body = {
+      query: ctx.query,
+      // served from the cache
+      same: ctx.query === ctx.query,
+    };
+  });
+  return app.inject({ url }).then((res) => res.json());
+}
+
+function validate(url: string, requestSchema: RequestSchema, body?: object) {
+  const app = new Application({ silent: true });
+  app.use(async (ctx) => {
+    const input = body ? { body: await ctx.request.json() } : {};
+    ctx.body = ctx.request.validate(input, requestSchema);
+  });
+  return app.inject({ url, method: body ? "POST" : "GET", body });
+}
+
+describe("request.query", () => {
+  it("parses nested keys and arrays", async () => {
+    expect(await query("/?a[b]=1&tag=x&tag=y")).toEqual({
+      query: { a: { b: "1" }, tag: ["x", "y"] },
+      same: true,
+    });
+  });
+
+  it("applies the app queryOptions", async () => {
+    const { query: parsed } = await query("/?a.b=1&c=x,y&d[e][f]=1", {
+      allowDots: true,
+      comma: true,
+      depth: 1,
+    });
+    expect(parsed).toEqual({
+      a: { b: "1" },
+      c: ["x", "y"],
+      d: { e: { "[f]": "1" } },
+    });
+  });
+
+  it("ignores parameters past the parameterLimit", async () => {
+    const { query: parsed } = await query("/?a=1&b=2&c=3", {
+      parameterLimit: 2,
+    });
+    expect(parsed).toEqual({ a: "1", b: "2" });
+  });
+
+  it("doesn't serve prototype properties from the cache", async () => {
+    for (const url of ["/?toString", "/?constructor", "/?__proto__"]) {
+      expect((await query(url)).query).toEqual({});
+    }
+  });
+
+  it("doesn't let keys shadow prototype properties", async () => {
+    const app = new Application();
+    app.use((ctx) => {
+      const parsed = ctx.query as Record<string, any>;
+      ctx.body = {
+        own: Object.keys(parsed),
+        hasOwnProperty: typeof parsed.hasOwnProperty,
+      };
+    });
+    const res = await app.inject({
+      url: "/?hasOwnProperty=1&__proto__[polluted]=1",
+    });
+    expect(res.json()).toEqual({ own: [], hasOwnProperty: "function" });
+    expect(({} as any).polluted).toBeUndefined();
+  });
+});
+
+describe("request.validate()", () => {
+  it("coerces the query to the schema types", async () => {
+    const res = await validate("/?page=2&active=yes&tag=a", {
+      query: {
+        page: schema.integer().min(1).default(1),
+        limit: schema.integer().default(20),
+        active: schema.boolean(),
+        tag: schema.array(schema.string()),
+        sort: schema.enum(["asc", "desc"]).optional(),
+      },
+    });
+    expect(res.status).toBe(200);
+    expect(res.json()).toEqual({
+      query: { page: 2, limit: 20, active: true, tag: ["a"] },
+    });
+  });
+
+  it("answers 400 listing every issue", async () => {
+    const res = await validate(
+      "/?page=0&sort=up",
+      {
+        query: {
+          page: schema.integer().min(1),
+          sort: schema.enum(["asc", "desc"]),
+        },
+        body: {
+          name: schema.string().max(3),
+          tags: schema.array(schema.number()),
+        },
+      },
+      { name: "too long", tags: [1, "x"] }
+    );
+    expect(res.status).toBe(400);
+    expect(res.text).toBe(
+      "Invalid request: query.page must be at least 1, query.sort must be one of asc, desc, body.name must be at most 3 characters, body.tags[1] must be a number"
+    );
+  });
+
+  it("reads headers case-insensitively", async () => {
+    const app = new Application();
+    app.use((ctx) => {
+      ctx.body = ctx.request.validate(
+        {},
+        { headers: { "X-Page": schema.integer() } }
+      );
+    });
+    const res = await app.inject({ headers: { "x-page": "3" } });
+    expect(res.json()).toEqual({ headers: { "x-page": 3 } });
+  });
+
+  it("only returns the fields of the schema", async () => {
+    const res = await validate(
+      "/",
+      { body: { name: schema.string() } },
+      { name: "tobi", admin: true }
+    );
+    expect(res.json()).toEqual({ body: { name: "tobi" } });
+  });
+});
@@ -0,0 +1,170 @@
+import { Readable } from "stream";
+import Application from "../application";
+import {
+  MemoryRateLimitStore,
+  rateLimit,
+  RateLimitOptions,
+} from "../ratelimit";
+
+function createApp(opts: RateLimitOptions) {
+  const app = new Application({ silent: true });
+  app.use(rateLimit(opts));
+  app.use((ctx) => {
+    ctx.body = "ok";
+  });
+  return app;
+}
+
+describe("rateLimit()", () => {
+  it("answers 429 with Retry-After past the limit", async () => {
+    const app = createApp({ limit: 2, window: 10000 });
+    const first = await app.inject();
+    expect(first.status).toBe(200);
+    expect(first.headers["ratelimit-limit"]).toBe("2");
+    expect(first.headers["ratelimit-remaining"]).toBe("1");
+    expect(first.headers["ratelimit-policy"]).toBe("2;w=10");
+    expect((await app.inject()).status).toBe(200);
+
+    const res = await app.inject();
+    expect(res.status).toBe(429);
+    expect(res.headers["ratelimit-remaining"]).toBe("0");
+    expect(Number(res.headers["retry-after"])).toBeGreaterThan(0);
+  });
+
+  it("keys clients by ip", async () => {
+    const app = createApp({ limit: 1 });
+    expect((await app.inject({ remoteAddress: "10.0.0.1" })).status).toBe(200);
+    expect((await app.inject({ remoteAddress: "10.0.0.1" })).status).toBe(429);
+    expect((await app.inject({ remoteAddress: "10.0.0.2" })).status).toBe(200);
+  });
+
+  it("groups IPv6 clients by subnet", async () => {
+    const app = createApp({ limit: 1 });
+    await app.inject({ remoteAddress: "2001:db8::1" });
+    const res = await app.inject({ remoteAddress: "2001:db8::2" });
+    expect(res.status).toBe(429);
+  });
+
+  it("ignores forwarded addresses of untrusted clients", async () => {
+    const app = createApp({ limit: 1 });
+    await app.inject({ headers: { "x-forwarded-for": "1.1.1.1" } });
+    const res = await app.inject({
+      headers: { "x-forwarded-for": "2.2.2.2" },
+    });
+    expect(res.status).toBe(429);
+  });
+
+  it("skips allowed clients", async () => {
+    const app = createApp({ limit: 1, allowList: ["10.0.0.0/8"] });
+    await app.inject({ remoteAddress: "10.1.2.3" });
+    const res = await app.inject({ remoteAddress: "10.1.2.3" });
+    expect(res.status).toBe(200);
+    expect(res.headers["ratelimit-limit"]).toBeUndefined();
+  });
+
+  it("refills token buckets over time", async () => {
+    const store = new MemoryRateLimitStore();
+    const rule = {
+      algorithm: "token-bucket" as const,
+      limit: 2,
+      window: 100,
+    };
+    expect(store.consume("k", rule, 2).allowed).toBe(true);
+    expect(store.consume("k", rule, 1).allowed).toBe(false);
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(store.consume("k", rule, 1).allowed).toBe(true);
+  });
+
+  describe("headers on errors", () => {
+    it("keeps them on errors thrown downstream", async () => {
+      const app = new Application({ silent: true });
+      app.use(rateLimit({ limit: 5 }));
+      app.use((ctx) => {
+        ctx.throw(400);
+      });
+      const res = await app.inject();
+      expect(res.status).toBe(400);
+      expect(res.headers["ratelimit-remaining"]).toBe("4");
+    });
+
+    it("keeps them on app timeouts", async () => {
+      const app = new Application({ silent: true, timeout: 10 });
+      app.use(rateLimit({ limit: 5 }));
+      app.use(() => new Promise((resolve) => setTimeout(resolve, 100)));
+      const res = await app.inject();
+      expect(res.status).toBe(503);
+      expect(res.headers["ratelimit-limit"]).toBe("5");
+    });
+
+    it("keeps them on stream errors", async () => {
+      const app = new Application({ silent: true });
+      app.use(rateLimit({ limit: 5 }));
+      app.use((ctx) => {
+        ctx.body = new Readable({
+          read() {
+            this.destroy(new Error("boom"));
+          },
+        });
+      });
+      const res = await app.inject();
+      expect(res.status).toBe(500);
+      expect(res.headers["ratelimit-limit"]).toBe("5");
+    });
+  });
+
+  describe("routes", () => {
+    it("applies the limit of the matching route", async () => {
+      const app = createApp({
+        limit: 100,
+        routes: [{ method: "POST", path: "/login", limit: 1 }],
+      });
+      expect((await app.inject({ method: "POST", url: "/login" })).status).toBe(
+        200
+      );
+      expect((await app.inject({ method: "POST", url: "/login" })).status).toBe(
+        429
+      );
+      expect((await app.inject({ url: "/login" })).status).toBe(200);
+    });
+
+    it("matches routes like the router does", async () => {
+      const app = createApp({
+        routes: [{ method: "POST", path: "/login", limit: 1 }],
+      });
+      await app.inject({ method: "POST", url: "/login" });
+      for (const url of ["/LOGIN", "/login/", "/Login", "/login?next=/"]) {
+        const res = await app.inject({ method: "POST", url });
+        expect(res.status).toBe(429);
+      }
+    });
+
+    it("matches prefixes regardless of case", async () => {
+      const app = createApp({
+        routes: [{ path: "/api/*", limit: 1 }],
+      });
+      await app.inject({ url: "/api/users" });
+      expect((await app.inject({ url: "/API/posts" })).status).toBe(429);
+    });
+
+    it("matches case and trailing slashes in sensitive and strict mode", async () => {
+      const app = createApp({
+        sensitive: true,
+        strict: true,
+        routes: [{ path: "/login", limit: 1 }],
+      });
+      await app.inject({ url: "/login" });
+      expect((await app.inject({ url: "/login" })).status).toBe(429);
+      expect((await app.inject({ url: "/LOGIN" })).status).toBe(200);
+      expect((await app.inject({ url: "/login/" })).status).toBe(200);
+    });
+
+    it("exempts routes without a limit", async () => {
+      const app = createApp({
+        limit: 1,
+        routes: [{ path: "/health", limit: false }],
+      });
+      await app.inject({ url: "/health" });
+      expect((await app.inject({ url: "/health" })).status).toBe(200);
+    });
+  });
+});
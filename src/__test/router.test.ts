@@ -0,0 +1,59 @@
+import Application from "../application";
+
+function createApp() {
+  const app = new Application({ silent: true });
+  app.get("/users/:id", (ctx) => {
+    ctx.body = { id: ctx.params.id };
+  });
+  app.put("/users/:id", (ctx) => {
+    ctx.status = 204;
+  });
+  return app;
+}
+
+describe("router", () => {
+  it("matches params", async () => {
+    const res = await createApp().inject({ url: "/users/42" });
+    expect(res.status).toBe(200);
+    expect(res.json()).toEqual({ id: "42" });
+  });
+
+  it("answers 405 with the allowed methods", async () => {
+    const res = await createApp().inject({
+      method: "DELETE",
+      url: "/users/42",
+    });
+    expect(res.status).toBe(405);
+    expect(String(res.headers.allow).split(", ").sort()).toEqual(
+      ["GET", "HEAD", "OPTIONS", "PUT"].sort()
+    );
+  });
+
+  it("answers 501 to unknown methods", async () => {
+    const res = await createApp().inject({ method: "BREW", url: "/users/42" });
+    expect(res.status).toBe(501);
+  });
+
+  it("answers OPTIONS with the allowed methods", async () => {
+    const res = await createApp().inject({
+      method: "OPTIONS",
+      url: "/users/42",
+    });
+    expect(res.status).toBe(200);
+    expect(res.headers.allow).toContain("PUT");
+  });
+
+  it("runs GET routes for HEAD without a body", async () => {
+    const res = await createApp().inject({ method: "HEAD", url: "/users/42" });
+    expect(res.status).toBe(200);
+    expect(res.headers["content-length"]).toBe(
+      String(Buffer.byteLength('{"id":"42"}'))
+    );
+    expect(res.body.length).toBe(0);
+  });
+
+  it("leaves unknown paths to a 404", async () => {
+    const res = await createApp().inject({ method: "DELETE", url: "/posts" });
+    expect(res.status).toBe(404);
+  });
+});
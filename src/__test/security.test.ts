@@ -0,0 +1,182 @@
+import { Readable } from "stream";
+import Application from "../application";
+import {
+  buildCsp,
+  contentSecurityPolicy,
+  parseCspReport,
+  securityHeaders,
+} from "../security";
+
+describe("securityHeaders()", () => {
+  it("sets the default headers", async () => {
+    const app = new Application();
+    app.use(securityHeaders());
+    app.use((ctx) => {
+      ctx.body = "ok";
+    });
+    const res = await app.inject();
+    expect(res.headers["x-content-type-options"]).toBe("nosniff");
+    expect(res.headers["referrer-policy"]).toBe("no-referrer");
+    expect(res.headers["cross-origin-opener-policy"]).toBe("same-origin");
+    expect(res.headers["cross-origin-resource-policy"]).toBe("same-origin");
+    expect(res.headers["cross-origin-embedder-policy"]).toBeUndefined();
+    expect(res.headers["permissions-policy"]).toBe(
+      "camera=(), microphone=(), geolocation=()"
+    );
+    expect(res.headers["content-security-policy"]).toBeUndefined();
+  });
+
+  it("only sends HSTS on secure requests", async () => {
+    const app = new Application();
+    app.use(securityHeaders({ hsts: { maxAge: 60, preload: true } }));
+    app.use((ctx) => {
+      ctx.body = "ok";
+    });
+    const plain = await app.inject();
+    expect(plain.headers["strict-transport-security"]).toBeUndefined();
+    const secure = await app.inject({ encrypted: true });
+    expect(secure.headers["strict-transport-security"]).toBe(
+      "max-age=60; includeSubDomains; preload"
+    );
+  });
+
+  it("adds a per-request nonce to the policy", async () => {
+    const app = new Application();
+    app.use(securityHeaders({ contentSecurityPolicy: { nonce: true } }));
+    app.use((ctx) => {
+      ctx.body = ctx.state.cspNonce;
+    });
+    const first = await app.inject();
+    const second = await app.inject();
+    expect(first.text).not.toBe(second.text);
+    expect(first.headers["content-security-policy"]).toContain(
+      `script-src 'self' 'nonce-${first.text}'`
+    );
+  });
+
+  describe("on errors", () => {
+    it("keeps the headers of thrown errors", async () => {
+      const app = new Application({ silent: true });
+      app.use(securityHeaders({ contentSecurityPolicy: {} }));
+      app.use((ctx) => {
+        ctx.throw(400);
+      });
+      const res = await app.inject();
+      expect(res.status).toBe(400);
+      expect(res.headers["x-content-type-options"]).toBe("nosniff");
+      expect(res.headers["content-security-policy"]).toBeDefined();
+    });
+
+    it("keeps them on app timeouts", async () => {
+      const app = new Application({ silent: true, timeout: 10 });
+      app.use(securityHeaders());
+      app.use(() => new Promise((resolve) => setTimeout(resolve, 100)));
+      const res = await app.inject();
+      expect(res.status).toBe(503);
+      expect(res.headers["x-content-type-options"]).toBe("nosniff");
+    });
+
+    it("keeps them on stream errors", async () => {
+      const app = new Application({ silent: true });
+      app.use(securityHeaders({ hsts: {} }));
+      app.use((ctx) => {
+        ctx.body = new Readable({
+          read() {
+            this.destroy(new Error("boom"));
+          },
+        });
+      });
+      const res = await app.inject({ encrypted: true });
+      expect(res.status).toBe(500);
+      expect(res.headers["x-content-type-options"]).toBe("nosniff");
+      expect(res.headers["strict-transport-security"]).toBeDefined();
+    });
+
+    it("keeps those of contentSecurityPolicy()", async () => {
+      const app = new Application({ silent: true });
+      app.use(contentSecurityPolicy({ reportOnly: true }));
+      app.use((ctx) => {
+        ctx.throw(500);
+      });
+      const res = await app.inject();
+      expect(res.headers["content-security-policy-report-only"]).toBe(
+        "default-src 'self'; base-uri 'self'; form-action 'self'; frame-ancestors 'self'; object-src 'none'"
+      );
+    });
+  });
+});
+
+describe("buildCsp()", () => {
+  it("formats directives", () => {
+    expect(
+      buildCsp({ defaultSrc: "'self'", upgradeInsecureRequests: true })
+    ).toBe("default-src 'self'; upgrade-insecure-requests");
+  });
+
+  it("starts nonce directives from default-src", () => {
+    expect(buildCsp({ "default-src": ["'self'"] }, undefined, "abc")).toBe(
+      "default-src 'self'; script-src 'self' 'nonce-abc'; style-src 'self' 'nonce-abc'"
+    );
+  });
+
+  it("rejects sources which would split the header", () => {
+    expect(() => buildCsp({ scriptSrc: "'self'; object-src *" })).toThrow(
+      TypeError
+    );
+  });
+});
+
+describe("parseCspReport()", () => {
+  function parse(type: string, body: object) {
+    const app = new Application({ silent: true });
+    app.use(async (ctx) => {
+      ctx.body = await parseCspReport(ctx.request);
+    });
+    return app.inject({
+      method: "POST",
+      headers: { "content-type": type },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it("reads legacy reports", async () => {
+    const res = await parse("application/csp-report", {
+      "csp-report": {
+        "document-uri": "https://example.com/",
+        "violated-directive": "script-src",
+        "blocked-uri": "inline",
+      },
+    });
+    expect(res.json()).toEqual([
+      {
+        documentUrl: "https://example.com/",
+        blockedUrl: "inline",
+        effectiveDirective: "script-src",
+        disposition: "enforce",
+      },
+    ]);
+  });
+
+  it("skips other Reporting API report types", async () => {
+    const res = await parse("application/reports+json", [
+      { type: "deprecation", body: {} },
+      {
+        type: "csp-violation",
+        url: "https://example.com/",
+        body: { effectiveDirective: "img-src", disposition: "report" },
+      },
+    ]);
+    expect(res.json()).toEqual([
+      {
+        documentUrl: "https://example.com/",
+        effectiveDirective: "img-src",
+        disposition: "report",
+      },
+    ]);
+  });
+
+  it("answers 415 to other types", async () => {
+    const res = await parse("text/plain", {});
+    expect(res.status).toBe(415);
+  });
+});
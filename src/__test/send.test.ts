@@ -0,0 +1,92 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import Application from "../application";
+import { send } from "../send";
+
+const CONTENT = "0123456789";
+let root: string;
+
+beforeAll(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), "send-"));
+  fs.writeFileSync(path.join(root, "digits.txt"), CONTENT);
+});
+
+afterAll(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+function request(range?: string, headers: Record<string, string> = {}) {
+  const app = new Application({ silent: true });
+  app.use(async (ctx) => {
+    await send(ctx, "/digits.txt", { root });
+  });
+  return app.inject({
+    url: "/digits.txt",
+    headers: range ? { range, ...headers } : headers,
+  });
+}
+
+describe("send() ranges", () => {
+  it("serves the whole file without a Range", async () => {
+    const res = await request();
+    expect(res.status).toBe(200);
+    expect(res.headers["accept-ranges"]).toBe("bytes");
+    expect(res.text).toBe(CONTENT);
+  });
+
+  it("serves a single range", async () => {
+    const res = await request("bytes=2-5");
+    expect(res.status).toBe(206);
+    expect(res.headers["content-range"]).toBe("bytes 2-5/10");
+    expect(res.text).toBe("2345");
+  });
+
+  it("serves suffix and open ended ranges", async () => {
+    expect((await request("bytes=-3")).text).toBe("789");
+    expect((await request("bytes=7-")).text).toBe("789");
+  });
+
+  it("clamps the end to the file size", async () => {
+    const res = await request("bytes=8-100");
+    expect(res.headers["content-range"]).toBe("bytes 8-9/10");
+    expect(res.text).toBe("89");
+  });
+
+  it("combines overlapping ranges", async () => {
+    const res = await request("bytes=0-3,2-5");
+    expect(res.status).toBe(206);
+    expect(res.headers["content-range"]).toBe("bytes 0-5/10");
+  });
+
+  it("serves multiple ranges as multipart/byteranges", async () => {
+    const res = await request("bytes=0-1,5-6");
+    expect(res.status).toBe(206);
+    expect(res.headers["content-type"]).toMatch(/^multipart\/byteranges/);
+    expect(res.text).toContain("Content-Range: bytes 0-1/10\r\n\r\n01");
+    expect(res.text).toContain("Content-Range: bytes 5-6/10\r\n\r\n56");
+    expect(res.headers["content-length"]).toBe(String(res.body.length));
+  });
+
+  it("answers 416 to unsatisfiable ranges", async () => {
+    const res = await request("bytes=20-30");
+    expect(res.status).toBe(416);
+    expect(res.headers["content-range"]).toBe("bytes */10");
+  });
+
+  it("ignores malformed ranges", async () => {
+    for (const range of ["bytes=a-b", "items=0-1", "bytes=-"]) {
+      const res = await request(range);
+      expect(res.status).toBe(200);
+      expect(res.text).toBe(CONTENT);
+    }
+  });
+
+  it("serves the whole file when If-Range doesn't match", async () => {
+    const res = await request("bytes=0-1", {
+      "if-range": "Thu, 01 Jan 1970 00:00:00 GMT",
+    });
+    expect(res.status).toBe(200);
+    expect(res.text).toBe(CONTENT);
+  });
+});
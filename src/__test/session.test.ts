@@ -0,0 +1,161 @@
+import Application from "../application";
+import { Keygrip } from "../cookies";
+import { MemorySessionStore, session, SessionOptions } from "../session";
+
+function createApp(opts: SessionOptions = {}, keys = ["secret"]) {
+  const app = new Application({ silent: true, keys });
+  app.use(session(opts));
+  app.get("/", (ctx) => {
+    ctx.body = { session: ctx.session, isNew: ctx.session!.isNew };
+  });
+  app.get("/views", (ctx) => {
+    ctx.session!.views = (ctx.session!.views || 0) + 1;
+    ctx.body = { views: ctx.session!.views };
+  });
+  app.get("/login", async (ctx) => {
+    await ctx.session!.regenerate();
+    ctx.session!.user = "tobi";
+    ctx.status = 204;
+  });
+  app.get("/logout", (ctx) => {
+    ctx.session = null;
+    ctx.status = 204;
+  });
+  return app;
+}
+
+/**
+ * Client keeping the cookies of the responses.
+ */
+function createClient(app: Application<any, any>) {
+  const jar: Record<string, string> = {};
+  return {
+    jar,
+    async get(url: string) {
+      const cookie = Object.keys(jar)
+        .map((name) => `${name}=${jar[name]}`)
+        .join("; ");
+      const res = await app.inject({ url, headers: cookie ? { cookie } : {} });
+      for (const header of ([] as string[]).concat(
+        res.headers["set-cookie"] || []
+      )) {
+        const [pair] = header.split(";");
+        const index = pair.indexOf("=");
+        const name = pair.slice(0, index);
+        if (/expires=Thu, 01 Jan 1970/.test(header)) {
+          delete jar[name];
+        } else {
+          jar[name] = pair.slice(index + 1);
+        }
+      }
+      return res;
+    },
+  };
+}
+
+describe("session()", () => {
+  it("requires app.keys", async () => {
+    const res = await createApp({}, []).inject();
+    expect(res.status).toBe(500);
+  });
+
+  it("doesn't set a cookie for empty sessions", async () => {
+    const res = await createApp().inject();
+    expect(res.json()).toEqual({ session: {}, isNew: true });
+    expect(res.headers["set-cookie"]).toBeUndefined();
+  });
+
+  describe("in an encrypted cookie", () => {
+    it("keeps the data between requests", async () => {
+      const client = createClient(createApp());
+      await client.get("/views");
+      const res = await client.get("/views");
+      expect(res.json()).toEqual({ views: 2 });
+      expect(client.jar["koa.sess"]).not.toContain("views");
+    });
+
+    it("ignores cookies it can't decrypt", async () => {
+      const client = createClient(createApp());
+      await client.get("/views");
+      const value = client.jar["koa.sess"];
+      client.jar["koa.sess"] = `${value.slice(0, -2)}AA`;
+      client.jar["koa.sess.sig"] = new Keygrip(["secret"]).sign(
+        `koa.sess=${client.jar["koa.sess"]}`
+      );
+      const res = await client.get("/views");
+      expect(res.json()).toEqual({ views: 1 });
+    });
+
+    it("decrypts cookies of older keys", async () => {
+      const old = createClient(createApp({}, ["old"]));
+      await old.get("/views");
+      const client = createClient(createApp({}, ["new", "old"]));
+      Object.assign(client.jar, old.jar);
+      const res = await client.get("/views");
+      expect(res.json()).toEqual({ views: 2 });
+    });
+
+    it("ignores expired sessions", async () => {
+      const client = createClient(createApp({ maxAge: 1 }));
+      await client.get("/views");
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      const res = await client.get("/views");
+      expect(res.json()).toEqual({ views: 1 });
+    });
+
+    it("clears the cookie when set to null", async () => {
+      const client = createClient(createApp());
+      await client.get("/views");
+      await client.get("/logout");
+      expect(client.jar["koa.sess"]).toBeUndefined();
+    });
+  });
+
+  describe("in a store", () => {
+    it("keeps the data under an ID", async () => {
+      const store = new MemorySessionStore();
+      const client = createClient(createApp({ store }));
+      await client.get("/views");
+      const id = client.jar["koa.sess"];
+      expect(store.get(id)).toMatchObject({ views: 1 });
+      const res = await client.get("/views");
+      expect(res.json()).toEqual({ views: 2 });
+      expect(client.jar["koa.sess"]).toBe(id);
+    });
+
+    it("doesn't adopt IDs the store doesn't know", async () => {
+      const store = new MemorySessionStore();
+      const client = createClient(createApp({ store }));
+      // an attacker-chosen ID, validly signed
+      client.jar["koa.sess"] = "fixated";
+      client.jar["koa.sess.sig"] = new Keygrip(["secret"]).sign(
+        "koa.sess=fixated"
+      );
+      await client.get("/views");
+      expect(client.jar["koa.sess"]).not.toBe("fixated");
+      expect(store.get("fixated")).toBeUndefined();
+    });
+
+    it("gives regenerated sessions a new ID", async () => {
+      const store = new MemorySessionStore();
+      const client = createClient(createApp({ store }));
+      await client.get("/views");
+      const id = client.jar["koa.sess"];
+      await client.get("/login");
+      expect(client.jar["koa.sess"]).not.toBe(id);
+      expect(store.get(id)).toBeUndefined();
+      const res = await client.get("/");
+      expect(res.json().session).toEqual({ user: "tobi" });
+    });
+
+    it("destroys sessions set to null", async () => {
+      const store = new MemorySessionStore();
+      const client = createClient(createApp({ store }));
+      await client.get("/views");
+      const id = client.jar["koa.sess"];
+      await client.get("/logout");
+      expect(store.get(id)).toBeUndefined();
+      expect(client.jar["koa.sess"]).toBeUndefined();
+    });
+  });
+});
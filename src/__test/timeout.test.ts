@@ -0,0 +1,68 @@
+import Application from "../application";
+import { timeout } from "../timeout";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("timeouts", () => {
+  it("answers 503 once the app timeout passes", async () => {
+    const app = new Application({ silent: true, timeout: 20 });
+    app.use(async (ctx) => {
+      await sleep(200);
+      ctx.body = "late";
+    });
+    const started = Date.now();
+    const res = await app.inject();
+    expect(res.status).toBe(503);
+    expect(Date.now() - started).toBeLessThan(200);
+  });
+
+  it("leaves fast requests alone", async () => {
+    const app = new Application({ timeout: 100 });
+    app.use(async (ctx) => {
+      await sleep(5);
+      ctx.body = "ok";
+    });
+    const res = await app.inject();
+    expect(res.status).toBe(200);
+    expect(res.text).toBe("ok");
+  });
+
+  it("aborts ctx.signal with the timeout error", async () => {
+    const app = new Application({ silent: true });
+    let reason: any;
+    app.use(timeout(10));
+    app.use(async (ctx) => {
+      ctx.signal.addEventListener("abort", () => {
+        reason = ctx.signal.reason;
+      });
+      await sleep(100);
+    });
+    const res = await app.inject();
+    expect(res.status).toBe(503);
+    expect(reason).toMatchObject({ status: 503, type: "request.timeout" });
+  });
+
+  it("sets ctx.deadline", async () => {
+    const app = new Application({ timeout: 1000 });
+    app.use((ctx) => {
+      ctx.body = { left: ctx.deadline! - Date.now() };
+    });
+    const { left } = (await app.inject()).json();
+    expect(left).toBeGreaterThan(900);
+    expect(left).toBeLessThanOrEqual(1000);
+  });
+
+  it("lets routes extend the app timeout", async () => {
+    const app = new Application({ silent: true, timeout: 20 });
+    app.get("/slow", timeout({ ms: 200, status: 504 }), async (ctx) => {
+      await sleep(50);
+      ctx.body = "done";
+    });
+    app.get("/slower", timeout({ ms: 30, status: 504 }), async (ctx) => {
+      await sleep(100);
+      ctx.body = "done";
+    });
+    expect((await app.inject({ url: "/slow" })).text).toBe("done");
+    expect((await app.inject({ url: "/slower" })).status).toBe(504);
+  });
+});
@@ -0,0 +1,184 @@
+import crypto from "crypto";
+import { Duplex } from "stream";
+import { WebSocket } from "../websocket";
+
+/**
+ * Socket standing in for the client, keeping the frames the
+ * server writes.
+ */
+class FakeSocket extends Duplex {
+  public output: Buffer[] = [];
+  public _read() {
+    // frames are pushed by the test
+  }
+  public _write(
+    chunk: Buffer,
+    _encoding: BufferEncoding,
+    callback: (err?: Error | null) => void
+  ) {
+    this.output.push(chunk);
+    callback();
+  }
+}
+
+/**
+ * A masked client frame.
+ */
+function frame(
+  opcode: number,
+  payload: Buffer | string,
+  opts: { fin?: boolean; masked?: boolean } = {}
+) {
+  const data = Buffer.from(payload);
+  const masked = opts.masked !== false;
+  let header: Buffer;
+  if (data.length < 126) {
+    header = Buffer.from([0, data.length]);
+  } else if (data.length < 0x10000) {
+    header = Buffer.alloc(4);
+    header[1] = 126;
+    header.writeUInt16BE(data.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[1] = 127;
+    header.writeUInt32BE(0, 2);
+    header.writeUInt32BE(data.length, 6);
+  }
+  header[0] = (opts.fin === false ? 0 : 0x80) | opcode;
+  if (!masked) {
+    return Buffer.concat([header, data]);
+  }
+  header[1] |= 0x80;
+  const mask = crypto.randomBytes(4);
+  const body = Buffer.from(data);
+  for (let i = 0; i < body.length; i++) {
+    body[i] ^= mask[i & 3];
+  }
+  return Buffer.concat([header, mask, body]);
+}
+
+function connect(maxPayload: number = 1024 * 1024) {
+  const socket = new FakeSocket();
+  const ws = new WebSocket(socket, Buffer.alloc(0), {
+    protocol: "",
+    extensions: "",
+    maxPayload,
+  });
+  const messages: [string | Buffer, boolean][] = [];
+  ws.on("message", (data, binary) => messages.push([data, binary]));
+  return { socket, ws, messages };
+}
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+/**
+ * Close code of the first close frame the server sent.
+ */
+function sentCloseCode(socket: FakeSocket) {
+  const out = Buffer.concat(socket.output);
+  for (let i = 0; i + 1 < out.length; ) {
+    const opcode = out[i] & 0x0f;
+    const length = out[i + 1] & 0x7f;
+    if (opcode === 0x8) {
+      return length >= 2 ? out.readUInt16BE(i + 2) : undefined;
+    }
+    i += 2 + length;
+  }
+  return undefined;
+}
+
+describe("WebSocket frame parser", () => {
+  it("decodes masked text and binary messages", async () => {
+    const { socket, messages } = connect();
+    await tick();
+    socket.push(frame(0x1, "hello"));
+    socket.push(frame(0x2, Buffer.from([1, 2, 3])));
+    await tick();
+    expect(messages).toEqual([
+      ["hello", false],
+      [Buffer.from([1, 2, 3]), true],
+    ]);
+  });
+
+  it("reassembles frames split across chunks", async () => {
+    const { socket, messages } = connect();
+    await tick();
+    const data = frame(0x1, "x".repeat(300));
+    for (let i = 0; i < data.length; i += 7) {
+      socket.push(data.subarray(i, i + 7));
+    }
+    await tick();
+    expect(messages).toEqual([["x".repeat(300), false]]);
+  });
+
+  it("joins fragmented messages around control frames", async () => {
+    const { socket, ws, messages } = connect();
+    const pings: Buffer[] = [];
+    ws.on("ping", (data) => pings.push(data));
+    await tick();
+    socket.push(frame(0x1, "frag", { fin: false }));
+    socket.push(frame(0x9, "p"));
+    socket.push(frame(0x0, "ment"));
+    await tick();
+    expect(messages).toEqual([["fragment", false]]);
+    expect(pings).toEqual([Buffer.from("p")]);
+  });
+
+  it("reads 64 bit lengths", async () => {
+    const { socket, messages } = connect();
+    await tick();
+    socket.push(frame(0x2, Buffer.alloc(70000, 1)));
+    await tick();
+    expect((messages[0][0] as Buffer).length).toBe(70000);
+  });
+
+  it("fails unmasked frames with 1002", async () => {
+    const { socket, messages } = connect();
+    await tick();
+    socket.push(frame(0x1, "hello", { masked: false }));
+    await tick();
+    expect(messages).toEqual([]);
+    expect(sentCloseCode(socket)).toBe(1002);
+  });
+
+  it("fails messages above maxPayload with 1009", async () => {
+    const { socket, messages } = connect(16);
+    await tick();
+    socket.push(frame(0x2, Buffer.alloc(17)));
+    await tick();
+    expect(messages).toEqual([]);
+    expect(sentCloseCode(socket)).toBe(1009);
+  });
+
+  it("fails invalid UTF-8 with 1007", async () => {
+    const { socket } = connect();
+    await tick();
+    socket.push(frame(0x1, Buffer.from([0xc3, 0x28])));
+    await tick();
+    expect(sentCloseCode(socket)).toBe(1007);
+  });
+
+  it("fails continuation frames without a message", async () => {
+    const { socket } = connect();
+    await tick();
+    socket.push(frame(0x0, "orphan"));
+    await tick();
+    expect(sentCloseCode(socket)).toBe(1002);
+  });
+
+  it("echoes the close frame and reports its code", async () => {
+    const { socket, ws } = connect();
+    const closed = new Promise((resolve) =>
+      ws.on("close", (code, reason) => resolve([code, reason]))
+    );
+    await tick();
+    const payload = Buffer.alloc(2 + 3);
+    payload.writeUInt16BE(1000, 0);
+    payload.write("bye", 2);
+    socket.push(frame(0x8, payload));
+    await tick();
+    expect(sentCloseCode(socket)).toBe(1000);
+    socket.destroy();
+    expect(await closed).toEqual([1000, "bye"]);
+  });
+});
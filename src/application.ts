@@ -1,32 +1,196 @@
+import { AsyncLocalStorage } from "async_hooks";
 import { EventEmitter } from "events";
+import http, { IncomingMessage, OutgoingMessage, ServerResponse } from "http";
+import http2 from "http2";
+import https from "https";
+import { Server, Socket } from "net";
+import { Duplex, Stream } from "stream";
 import util from "util";
 import compose from "koa-compose";
+import onFinished from "on-finished";
+import statuses from "statuses";
 import { only } from "./common";
-import context, { Context } from "./context";
+import { compress, CompressOptions } from "./compress";
+import { Context, ParameterizedContext } from "./context";
+import { createHttpError } from "./errors";
+import { preconditionFailed, setETag } from "./etag";
+import {
+  accessLogEntry,
+  AccessLogOptions,
+  formatAccessLog,
+  RequestIdOptions,
+  stdoutSink,
+} from "./logger";
+import { inject, InjectOptions, InjectResponse } from "./inject";
+import { compileTrust, TrustFunction, TrustProxy } from "./proxy";
+import type { IncomingRequest, QueryOptions } from "./request";
+import type { OutgoingResponse } from "./responce";
+import { RouteMethod, Router } from "./router";
+import { TimeoutOptions, withTimeout } from "./timeout";
+import { prepareUpgrade, WebSocket, WebSocketOptions } from "./websocket";
+
+/**
+ * Shape of `ctx.state` and of custom `ctx` properties,
+ * narrowed through the type parameters of `Application`.
+ */
+export type DefaultState = Record<string, any>;
+export type DefaultContext = {};
+
+export type Next = () => Promise<void>;
+
+export type Middleware<
+  StateT = DefaultState,
+  ContextT = DefaultContext,
+  BodyT = unknown
+> = (
+  ctx: ParameterizedContext<StateT, ContextT, BodyT>,
+  next: Next
+) => Promise<void> | void;
+
+type ComposedMiddleware = (ctx: any, next?: Next) => Promise<any>;
 
 interface Options {
   env?: string;
   keys?: string[];
   proxy?: boolean;
   subdomainOffset?: number;
+  /**
+   * Header the client addresses are read from, defaults to
+   * `X-Forwarded-For`. Set it to `Forwarded` for proxies which
+   * send RFC 7239 headers, only that one is then read.
+   */
   proxyIpHeader?: string;
   maxIpsCount?: number;
-  compose?: (args: any[]) => any;
+  /**
+   * Proxies trusted for the forwarding headers, see `proxyIpHeader`,
+   * overrides `proxy` and `maxIpsCount`.
+   */
+  trustProxy?: TrustProxy;
+  compose?: (middleware: Middleware<any, any, any>[]) => ComposedMiddleware;
+  /**
+   * TLS options such as `key` and `cert`, `listen()` serves
+   * HTTPS, or HTTP/2 over TLS with `http2`. For local testing
+   * a self-signed certificate will do:
+   *
+   *    openssl req -x509 -newkey rsa:2048 -nodes -days 365 \
+   *      -subj '/CN=localhost' -keyout key.pem -out cert.pem
+   */
+  https?: https.ServerOptions;
+  /**
+   * Serve HTTP/2, cleartext unless `https` is set.
+   */
+  http2?: boolean;
+  /**
+   * Answer HTTP/1 clients of an HTTP/2 over TLS server,
+   * defaults to `true`.
+   */
+  allowHTTP1?: boolean;
+  /**
+   * Generate ETags for 2xx bodies and answer conditional
+   * GET and HEAD requests with `304` or `412`. Unsafe methods
+   * are not checked, only the handler knows the validators of
+   * the resource before changing it: PUT, PATCH and DELETE
+   * handlers have to call `ctx.assertPreconditions()`.
+   */
+  etag?: boolean | "weak" | "strong";
+  /**
+   * Compress responses with the encoding negotiated
+   * from `Accept-Encoding`.
+   */
+  compress?: boolean | CompressOptions;
+  /**
+   * Limits of `ctx.query` parsing.
+   */
+  queryOptions?: QueryOptions;
+  /**
+   * Time a request may take in milliseconds, answered with
+   * a `503` past it, see `timeout()` for per-route ones.
+   */
+  timeout?: number | TimeoutOptions;
+  /**
+   * Take request IDs from a header, `X-Request-Id` by default,
+   * or generate them, and echo them on the response as `ctx.id`.
+   */
+  requestId?: boolean | RequestIdOptions;
+  /**
+   * Log a line per response, as JSON or in Common or
+   * Combined Log Format.
+   */
+  accessLog?: boolean | AccessLogOptions;
+  /**
+   * Run each request in an `AsyncLocalStorage` store, making
+   * its context available as `app.currentContext`.
+   */
+  asyncLocalStorage?: boolean | AsyncLocalStorage<Context>;
+  silent?: boolean;
+  /**
+   * @deprecated misspelled, use `silent`.
+   */
   slient?: boolean;
 }
-class Application extends EventEmitter {
+
+export interface CloseOptions {
+  /**
+   * Time given to the requests in flight, in milliseconds,
+   * before their connections are destroyed, defaults to `10000`.
+   */
+  timeout?: number;
+}
+class Application<
+  StateT = DefaultState,
+  ContextT = DefaultContext
+> extends EventEmitter {
   public proxy: boolean;
   public subdomainOffset: number;
   public proxyIpHeader: string;
   public maxIpsCount: number;
   public env: string;
-  public compose: (args: any[]) => any;
+  public compose: (
+    middleware: Middleware<any, any, any>[]
+  ) => ComposedMiddleware;
   public keys: string[];
-  middleware;
-  public context: Context;
-  request;
-  response;
+  public https?: https.ServerOptions;
+  public http2: boolean;
+  public allowHTTP1: boolean;
+  public middleware: Middleware<StateT, ContextT>[];
+  /**
+   * Prototype of every context created by this app,
+   * extend it to add properties or methods to `ctx`.
+   */
+  public context: Context & ContextT;
   public silent: boolean;
+  public etag: false | "weak" | "strong";
+  public compress: false | CompressOptions;
+  public queryOptions: QueryOptions;
+  public timeout?: TimeoutOptions;
+  public requestId: false | (RequestIdOptions & { header: string });
+  public accessLog: false | AccessLogOptions;
+  public ctxStorage?: AsyncLocalStorage<Context>;
+  /**
+   * Set once `close()` is called.
+   */
+  public closing: boolean = false;
+  /**
+   * Routes registered with `app.get()`, `app.post()`...
+   */
+  public get: RouteMethod<this> = this.route("get");
+  public post: RouteMethod<this> = this.route("post");
+  public put: RouteMethod<this> = this.route("put");
+  public patch: RouteMethod<this> = this.route("patch");
+  public delete: RouteMethod<this> = this.route("delete");
+  public all: RouteMethod<this> = this.route("all");
+  private _router?: Router;
+  private _trustProxy?: TrustProxy;
+  private _trust?: TrustFunction;
+  private _inFlight = 0;
+  private _closed?: Promise<void>;
+  // called as requests and connections end while closing
+  private _drained?: () => void;
+  // servers of `createServer()`, their HTTP/1 sockets with the
+  // number of requests in flight on each, and HTTP/2 sessions
+  private servers = new Set<Server>();
+  private sockets = new Map<Socket, number>();
+  private sessions = new Set<http2.Http2Session>();
 
   constructor(options: Options = {}) {
     super();
@@ -34,14 +198,39 @@ class Application extends EventEmitter {
     this.subdomainOffset = options.subdomainOffset || 2;
     this.proxyIpHeader = options.proxyIpHeader || "X-Forwarded-For";
     this.maxIpsCount = options.maxIpsCount || 0;
+    this.trustProxy = options.trustProxy;
     this.env = options.env || process.env.NODE_ENV || "development";
     this.compose = options.compose || compose;
     this.keys = options.keys || [];
-    this.silent = options.slient || false;
+    this.https = options.https;
+    this.http2 = options.http2 || false;
+    this.allowHTTP1 = options.allowHTTP1 !== false;
+    this.silent = options.silent || options.slient || false;
+    this.etag = options.etag === true ? "strong" : options.etag || false;
+    this.compress = options.compress === true ? {} : options.compress || false;
+    this.queryOptions = options.queryOptions || {};
+    this.timeout =
+      typeof options.timeout === "number"
+        ? { ms: options.timeout }
+        : options.timeout;
+    this.requestId = options.requestId
+      ? {
+          header: "X-Request-Id",
+          ...(options.requestId === true ? {} : options.requestId),
+        }
+      : false;
+    this.accessLog =
+      options.accessLog === true ? {} : options.accessLog || false;
+    if (options.asyncLocalStorage) {
+      this.ctxStorage =
+        options.asyncLocalStorage === true
+          ? new AsyncLocalStorage()
+          : options.asyncLocalStorage;
+    }
     this.middleware = [];
-    this.context = Object.create(context);
-    this.request = Object.create(request);
-    this.response = Object.create(response);
+    // a subclass per app so extending `app.context`
+    // does not leak into other applications
+    this.context = class extends Context {}.prototype as Context & ContextT;
     // util.inspect.custom support for node 6+
     /* istanbul ignore else */
     if (util.inspect.custom) {
@@ -49,6 +238,181 @@ class Application extends EventEmitter {
     }
   }
 
+  /**
+   * Proxies trusted for forwarding headers, compiled on assignment.
+   */
+  public get trustProxy(): TrustProxy | undefined {
+    return this._trustProxy;
+  }
+  public set trustProxy(value: TrustProxy | undefined) {
+    this._trustProxy = value;
+    this._trust = value === undefined ? undefined : compileTrust(value);
+  }
+
+  /**
+   * Decide if the proxy at `addr`, `hop` hops away from the app,
+   * is trusted. Without `trustProxy` every hop is trusted when
+   * `proxy` is set, up to `maxIpsCount` hops.
+   */
+  public get trust(): TrustFunction {
+    if (this._trust) {
+      return this._trust;
+    }
+    return compileTrust(this.proxy ? this.maxIpsCount || true : false);
+  }
+
+  /**
+   * Shorthand for:
+   *
+   *    app.createServer().listen(...)
+   */
+  public listen(...args: any[]) {
+    const server = this.createServer();
+    return server.listen(...args);
+  }
+
+  /**
+   * Create a server for `app.callback()`, HTTP/1, HTTPS or
+   * HTTP/2 depending on the `https` and `http2` options.
+   */
+  public createServer() {
+    const handler = this.callback();
+    if (this.http2) {
+      if (this.https) {
+        return this.track(
+          http2.createSecureServer(
+            { ...this.https, allowHTTP1: this.allowHTTP1 },
+            handler
+          )
+        );
+      }
+      return this.track(http2.createServer(handler));
+    }
+    const server = this.https
+      ? https.createServer(this.https, handler)
+      : http.createServer(handler);
+    server.on("upgrade", this.upgradeCallback());
+    return this.track(server);
+  }
+
+  /**
+   * Run a request through the middleware without a server,
+   * over a fake connection, for tests.
+   *
+   *    const res = await app.inject({ method: 'POST', url: '/users', body: { name: 'tj' } });
+   *    assert.equal(res.status, 201);
+   *    assert.equal(res.json().name, 'tj');
+   */
+  public inject(opts?: InjectOptions): Promise<InjectResponse> {
+    return inject(this.callback(), opts);
+  }
+
+  /**
+   * Number of requests being handled, for health checks.
+   */
+  public get inFlight() {
+    return this._inFlight;
+  }
+
+  /**
+   * Stop accepting connections and resolve once the requests
+   * in flight are done, destroying the connections left after
+   * `timeout`. Idle keep-alive connections are closed right
+   * away, the others after their current response. Emits
+   * `closing` and `closed`. Only servers of `createServer()`
+   * and `listen()` are closed.
+   *
+   *    process.on('SIGTERM', () => app.close({ timeout: 30000 }));
+   */
+  public close(opts: CloseOptions = {}): Promise<void> {
+    if (this._closed) {
+      return this._closed;
+    }
+    this.closing = true;
+    this.emit("closing");
+    const timeout = opts.timeout === undefined ? 10000 : opts.timeout;
+    this._closed = new Promise<void>((resolve) => {
+      let open = this.servers.size;
+      let forced = false;
+      const finish = () => {
+        clearTimeout(timer);
+        this._drained = undefined;
+        this.emit("closed");
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        forced = true;
+        this.sockets.forEach((_, socket) => socket.destroy());
+        this.sessions.forEach((session) => session.destroy());
+        this.drained();
+      }, timeout);
+      timer.unref();
+      this._drained = () => {
+        if (open) {
+          return;
+        }
+        // once forced, requests of other servers are not waited for
+        const gone = !this.sockets.size && !this.sessions.size;
+        if (!this._inFlight || (forced && gone)) {
+          finish();
+        }
+      };
+
+      this.servers.forEach((server) =>
+        server.close(() => {
+          open--;
+          this.drained();
+        })
+      );
+      // HTTP/2 sessions send GOAWAY and end with their last stream
+      this.sessions.forEach((session) => session.close());
+      this.sockets.forEach((requests, socket) => {
+        if (!requests) {
+          socket.destroy();
+        }
+      });
+      this._drained();
+    });
+    return this._closed;
+  }
+
+  /**
+   * Check if closing is done as requests and connections end.
+   */
+  private drained() {
+    if (this._drained) {
+      this._drained();
+    }
+  }
+
+  /**
+   * Keep track of the connections of `server` for `close()`.
+   */
+  private track<S extends Server>(server: S): S {
+    this.servers.add(server);
+    server.on("close", () => this.servers.delete(server));
+    if (this.http2) {
+      server.on("session", (session: http2.Http2Session) => {
+        this.sessions.add(session);
+        session.on("close", () => {
+          this.sessions.delete(session);
+          this.drained();
+        });
+      });
+      return server;
+    }
+    // requests of TLS servers run on the TLS socket, not the raw one
+    const event = this.https ? "secureConnection" : "connection";
+    server.on(event, (socket: Socket) => {
+      this.sockets.set(socket, 0);
+      socket.on("close", () => {
+        this.sockets.delete(socket);
+        this.drained();
+      });
+    });
+    return server;
+  }
+
   public inspect() {
     return this.toJSON();
   }
@@ -56,4 +420,360 @@ class Application extends EventEmitter {
   public toJSON() {
     return only(this, ["subdomainOffset", "proxy", "env"]);
   }
+
+  /**
+   * Use the given middleware `fn`. The state and context
+   * types it declares carry over to the middleware after it.
+   *
+   *    app
+   *      .use<{ user: User }>(async (ctx, next) => {
+   *        ctx.state.user = await auth(ctx);
+   *        await next();
+   *      })
+   *      .use((ctx) => {
+   *        ctx.body = ctx.state.user.name;
+   *      });
+   */
+  public use<NewStateT = {}, NewContextT = {}>(
+    fn: Middleware<StateT & NewStateT, ContextT & NewContextT>
+  ): Application<StateT & NewStateT, ContextT & NewContextT> {
+    if (typeof fn !== "function") {
+      throw new TypeError("middleware must be a function!");
+    }
+    (this.middleware as Middleware<any, any>[]).push(fn);
+    return this as Application<any, any>;
+  }
+
+  /**
+   * The app router, mounted as middleware on first use.
+   */
+  public get router(): Router {
+    if (!this._router) {
+      this._router = new Router();
+      this.use(this._router.routes());
+    }
+    return this._router;
+  }
+
+  /**
+   * Context of the request being handled, anywhere down its
+   * async call tree, with the `asyncLocalStorage` option.
+   *
+   *    function audit(action) {
+   *      const ctx = app.currentContext;
+   *      log.info({ action, user: ctx && ctx.state.user, id: ctx && ctx.id });
+   *    }
+   */
+  public get currentContext():
+    | ParameterizedContext<StateT, ContextT>
+    | undefined {
+    if (!this.ctxStorage) {
+      return undefined;
+    }
+    return this.ctxStorage.getStore() as ParameterizedContext<StateT, ContextT>;
+  }
+
+  /**
+   * Return a request handler callback
+   * for node's native http server.
+   */
+  public callback() {
+    const fn = this.compose(this.middleware);
+
+    if (!this.listenerCount("error")) {
+      this.on("error", this.onerror);
+    }
+
+    const handleRequest = (req: IncomingRequest, res: OutgoingResponse) => {
+      const ctx = this.createContext(req, res);
+      if (this.ctxStorage) {
+        return this.ctxStorage.run(ctx, () => this.handleRequest(ctx, fn));
+      }
+      return this.handleRequest(ctx, fn);
+    };
+
+    return handleRequest;
+  }
+
+  /**
+   * Return an `upgrade` event handler for node's native http
+   * server. Upgrade requests run through the middleware, where
+   * `ctx.upgrade()` accepts them, and get a regular response
+   * otherwise.
+   */
+  public upgradeCallback() {
+    const fn = this.compose(this.middleware);
+
+    if (!this.listenerCount("error")) {
+      this.on("error", this.onerror);
+    }
+
+    return (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const res = new ServerResponse(req);
+      res.assignSocket(socket as Socket);
+      res.shouldKeepAlive = false;
+      // the socket is done once a rejection is sent
+      res.on("finish", () => socket.end());
+      prepareUpgrade(req, socket, head);
+      const ctx = this.createContext(req, res);
+      if (this.ctxStorage) {
+        return this.ctxStorage.run(ctx, () => this.handleRequest(ctx, fn));
+      }
+      return this.handleRequest(ctx, fn);
+    };
+  }
+
+  /**
+   * Accept WebSocket upgrades on `path` with `handler`, once the
+   * middleware ran. Other requests to `path` pass through.
+   *
+   *    app.ws('/rooms/:room', (ws, ctx) => {
+   *      ws.on('message', (data) => ws.send(`${ctx.params.room}: ${data}`));
+   *    });
+   */
+  public ws(
+    path: string,
+    handler: (
+      ws: WebSocket,
+      ctx: ParameterizedContext<StateT, ContextT>
+    ) => any,
+    opts?: WebSocketOptions
+  ) {
+    this.router.get(path, async (ctx, next) => {
+      if (!ctx.upgradable) {
+        return next();
+      }
+      await handler(
+        ctx.upgrade(opts),
+        ctx as ParameterizedContext<StateT, ContextT>
+      );
+    });
+    return this;
+  }
+
+  /**
+   * Handle request in callback.
+   */
+  public handleRequest(
+    ctx: ParameterizedContext<StateT, ContextT>,
+    fnMiddleware: ComposedMiddleware
+  ) {
+    const start = process.hrtime.bigint();
+    const res = ctx.res;
+    res.statusCode = 404;
+    if (this.requestId) {
+      ctx.set(this.requestId.header, ctx.id);
+    }
+    this._inFlight++;
+    const socket = ctx.req.socket as Socket;
+    const requests = this.sockets.get(socket);
+    if (requests !== undefined) {
+      this.sockets.set(socket, requests + 1);
+    }
+    onFinished(res as OutgoingMessage, () => {
+      this._inFlight--;
+      const left = this.sockets.get(socket);
+      if (left !== undefined) {
+        this.sockets.set(socket, left - 1);
+        // keep-alive connections end with their last response
+        if (this.closing && left === 1) {
+          socket.end();
+        }
+      }
+      this.drained();
+    });
+    if (this.accessLog) {
+      const { format, sink = stdoutSink } = this.accessLog;
+      onFinished(res as OutgoingMessage, () => {
+        const entry = accessLogEntry(ctx, start);
+        try {
+          sink(formatAccessLog(entry, format), entry);
+        } catch (err) {
+          this.emit("error", err, ctx);
+        }
+      });
+    }
+    const onerror = (err) => ctx.onerror(err);
+    const handleResponse = async () => {
+      if (this.etag) {
+        await setETag(ctx, this.etag === "weak");
+      }
+      respond(ctx);
+    };
+    onFinished(res as OutgoingMessage, onerror);
+    res.once("close", () => {
+      if (!res.writableEnded) {
+        const err = new Error("Client disconnected");
+        err.name = "AbortError";
+        ctx.abort(err);
+      }
+    });
+    const pending = this.timeout
+      ? withTimeout(ctx, this.timeout, () => fnMiddleware(ctx))
+      : fnMiddleware(ctx);
+    return pending.then(handleResponse).catch(onerror);
+  }
+
+  /**
+   * Initialize a new context.
+   */
+  public createContext(
+    req: IncomingRequest,
+    res: OutgoingResponse
+  ): ParameterizedContext<StateT, ContextT> {
+    const ContextClass = this.context.constructor as typeof Context;
+    return new ContextClass(this, req, res) as ParameterizedContext<
+      StateT,
+      ContextT
+    >;
+  }
+
+  private route(method: "get" | "post" | "put" | "patch" | "delete" | "all") {
+    return ((...args: any[]) => {
+      (this.router[method] as (...args: any[]) => Router)(...args);
+      return this;
+    }) as RouteMethod<any>;
+  }
+
+  /**
+   * Default error handler.
+   */
+  public onerror(err: any) {
+    // When dealing with cross-globals a normal `instanceof` check doesn't work properly.
+    const isNativeError =
+      Object.prototype.toString.call(err) === "[object Error]" ||
+      err instanceof Error;
+    if (!isNativeError) {
+      throw new TypeError(util.format("non-error thrown: %j", err));
+    }
+
+    if (this.silent) {
+      return;
+    }
+
+    // client errors are expected, only log the unexpected ones
+    if (err.status === 404 || err.expose) {
+      return;
+    }
+
+    const msg = err.stack || err.toString();
+    console.error(`\n${msg.replace(/^/gm, "  ")}\n`);
+  }
+}
+
+/**
+ * Response helper.
+ */
+function respond(ctx: Context) {
+  // allow bypassing the built-in response handling
+  if (ctx.respond === false) {
+    return;
+  }
+
+  const response = ctx.response;
+  if (!response.writable) {
+    return;
+  }
+
+  // draining, the client has to reconnect elsewhere
+  if (ctx.app.closing && ctx.req.httpVersionMajor < 2 && !response.headerSent) {
+    response.set("Connection", "close");
+  }
+
+  // conditional GET, unsafe methods use `ctx.assertPreconditions()`
+  const method = ctx.request.method;
+  if (ctx.app.etag && (method === "GET" || method === "HEAD")) {
+    const validators = {
+      etag: response.etag,
+      lastModified: response.lastModified,
+    };
+    if (preconditionFailed(ctx, validators)) {
+      throw createHttpError(412);
+    }
+    if (ctx.fresh) {
+      response.status = 304;
+    }
+  }
+
+  const res = ctx.res;
+  let body = response.body;
+  const code = response.status;
+
+  // ignore body
+  if (statuses.empty[code]) {
+    // strip headers
+    response.body = null;
+    res.end();
+    return;
+  }
+
+  if (method === "HEAD") {
+    if (!res.headersSent && !response.has("Content-Length")) {
+      const { length } = response;
+      if (Number.isInteger(length)) {
+        response.length = length;
+      }
+    }
+    res.end();
+    return;
+  }
+
+  // status body
+  if (body == null) {
+    if (response._explicitNullBody) {
+      response.remove("Content-Type");
+      response.remove("Transfer-Encoding");
+      response.length = 0;
+      res.end();
+      return;
+    }
+    const text =
+      ctx.req.httpVersionMajor >= 2
+        ? String(code)
+        : response.message || String(code);
+    if (!res.headersSent) {
+      response.type = "text";
+      response.length = Buffer.byteLength(text);
+    }
+    res.end(text);
+    return;
+  }
+
+  if (ctx.app.compress && !res.headersSent) {
+    compress(ctx, ctx.app.compress);
+    body = response.body;
+  }
+
+  // trailers need chunked encoding, which HTTP/1.0 lacks
+  const trailers = response.has("Trailer");
+  if (trailers && ctx.req.httpVersionMajor < 2 && !res.headersSent) {
+    if (ctx.req.httpVersion === "1.0") {
+      response.remove("Trailer");
+    } else {
+      response.remove("Content-Length");
+    }
+  }
+
+  // responses
+  if (Buffer.isBuffer(body)) {
+    res.end(body);
+    return;
+  }
+  if (typeof body === "string") {
+    res.end(body);
+    return;
+  }
+  if (body instanceof Stream) {
+    body.pipe(res);
+    return;
+  }
+
+  // body: json
+  const json = JSON.stringify(body);
+  if (!res.headersSent && !trailers) {
+    response.length = Buffer.byteLength(json);
+  }
+  res.end(json);
 }
+
+export default Application;
@@ -0,0 +1,681 @@
+import crypto from "crypto";
+import fs from "fs";
+import { OutgoingMessage } from "http";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+import zlib from "zlib";
+import contentDisposition from "content-disposition";
+import contentType from "content-type";
+import onFinished from "on-finished";
+import qs from "qs";
+import { bytes } from "./common";
+import { createHttpError } from "./errors";
+import type { Request } from "./request";
+
+export interface BodyOptions {
+  /**
+   * Max body size in bytes or as a string like `"1mb"`.
+   */
+  limit?: number | string;
+  /**
+   * Charset used when the request does not declare one.
+   */
+  encoding?: string;
+}
+
+export interface JsonOptions extends BodyOptions {
+  /**
+   * Only accept objects and arrays, defaults to `true`.
+   */
+  strict?: boolean;
+  reviver?: (key: string, value: any) => any;
+}
+
+export interface MultipartOptions {
+  /**
+   * Max size of a single file, defaults to `"10mb"`.
+   */
+  maxFileSize?: number | string;
+  /**
+   * Max size of a single non-file field, defaults to `"1mb"`.
+   */
+  maxFieldSize?: number | string;
+  /**
+   * Max size of all non-file fields together, which are
+   * buffered in memory, defaults to `"2mb"`.
+   */
+  maxFieldsSize?: number | string;
+  /**
+   * Max size of all files together, defaults to `"100mb"`
+   * or `maxFileSize` when that is larger.
+   */
+  maxTotalFileSize?: number | string;
+  /**
+   * Max number of files, defaults to `100`.
+   */
+  maxFiles?: number;
+  /**
+   * Max number of non-file fields, defaults to `1000`.
+   */
+  maxFields?: number;
+  /**
+   * Where uploads are written, defaults to `os.tmpdir()`.
+   */
+  uploadDir?: string;
+  /**
+   * Keep the uploaded files once the response is finished,
+   * by default they are removed.
+   */
+  keepFiles?: boolean;
+}
+
+export type ParseOptions = JsonOptions & MultipartOptions;
+
+export interface UploadedFile {
+  fieldname: string;
+  filename: string;
+  path: string;
+  type: string;
+  size: number;
+}
+
+export interface FormData {
+  fields: Record<string, string | string[]>;
+  files: Record<string, UploadedFile | UploadedFile[]>;
+}
+
+const JSON_LIMIT = "1mb";
+const FORM_LIMIT = "56kb";
+const TEXT_LIMIT = "1mb";
+
+// first non-whitespace character of a strict JSON body
+const STRICT_JSON_REGEXP = /^[\x20\x09\x0a\x0d]*([^\x20\x09\x0a\x0d])/;
+
+const rawBodies = new WeakMap<Request, Promise<Buffer>>();
+const formDatas = new WeakMap<Request, Promise<FormData>>();
+
+/**
+ * Parse the request body based on its Content-Type,
+ * JSON, urlencoded and text bodies are buffered while
+ * multipart bodies are streamed to disk.
+ */
+export function parseBody(request: Request, opts: ParseOptions = {}) {
+  switch (request.is("json", "urlencoded", "text", "multipart")) {
+    case null:
+      return Promise.resolve(undefined);
+    case "json":
+      return parseJson(request, opts);
+    case "urlencoded":
+      return parseForm(request, opts);
+    case "text":
+      return parseText(request, opts);
+    case "multipart":
+      return parseFormData(request, opts);
+    default:
+      return Promise.reject(
+        createHttpError(415, `Unsupported Content-Type: ${request.type}`, {
+          type: "entity.unsupported",
+        })
+      );
+  }
+}
+
+export async function parseJson(request: Request, opts: JsonOptions = {}) {
+  const str = await parseText(request, { limit: JSON_LIMIT, ...opts });
+  if (!str) {
+    return {};
+  }
+  if (opts.strict !== false) {
+    const match = STRICT_JSON_REGEXP.exec(str);
+    if (match && match[1] !== "{" && match[1] !== "[") {
+      throw createHttpError(
+        400,
+        "invalid JSON, only supports object and array",
+        {
+          type: "entity.parse.failed",
+          body: str,
+        }
+      );
+    }
+  }
+  try {
+    return JSON.parse(str, opts.reviver);
+  } catch (err) {
+    throw createHttpError(400, (err as Error).message, {
+      type: "entity.parse.failed",
+      body: str,
+    });
+  }
+}
+
+export async function parseForm(request: Request, opts: BodyOptions = {}) {
+  const str = await parseText(request, { limit: FORM_LIMIT, ...opts });
+  return qs.parse(str, { allowPrototypes: false });
+}
+
+export async function parseText(request: Request, opts: BodyOptions = {}) {
+  const charset = (request.charset || opts.encoding || "utf-8").toLowerCase();
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(charset);
+  } catch (err) {
+    throw createHttpError(
+      415,
+      `unsupported charset "${charset.toUpperCase()}"`,
+      {
+        type: "charset.unsupported",
+        charset,
+      }
+    );
+  }
+  const buf = await readRawBody(request, opts.limit || TEXT_LIMIT);
+  return decoder.decode(buf);
+}
+
+/**
+ * Buffer the raw request body, enforcing `limit` against
+ * the declared Content-Length and while streaming.
+ * Memoized so the body can be parsed more than once.
+ */
+export function readRawBody(request: Request, limit: number | string) {
+  let raw = rawBodies.get(request);
+  if (!raw) {
+    if (formDatas.has(request)) {
+      return Promise.reject(new Error("request body already consumed"));
+    }
+    raw = collect(request, bytes(limit));
+    rawBodies.set(request, raw);
+  }
+  return raw;
+}
+
+/**
+ * Parse a multipart body, files are streamed to `uploadDir`
+ * with per-part and total limits and removed once the response
+ * is finished unless `keepFiles` is set.
+ */
+export function parseFormData(request: Request, opts: MultipartOptions = {}) {
+  let form = formDatas.get(request);
+  if (!form) {
+    if (rawBodies.has(request)) {
+      return Promise.reject(new Error("request body already consumed"));
+    }
+    form = collectMultipart(request, opts);
+    formDatas.set(request, form);
+  }
+  return form;
+}
+
+function collect(request: Request, limit: number): Promise<Buffer> {
+  const length = request.length;
+  const identity = !request.get("Content-Encoding");
+  if (identity && length !== undefined && length > limit) {
+    return Promise.reject(tooLarge(limit, length));
+  }
+
+  return new Promise((resolve, reject) => {
+    let stream: Readable;
+    try {
+      stream = decode(request);
+    } catch (err) {
+      return reject(err);
+    }
+    const chunks: Buffer[] = [];
+    let received = 0;
+
+    const cleanup = () => {
+      stream.removeListener("data", onData);
+      stream.removeListener("end", onEnd);
+      stream.removeListener("error", onError);
+      request.req.removeListener("aborted", onAborted);
+    };
+    const fail = (err: Error) => {
+      cleanup();
+      // stop reading, the connection will not be reused
+      request.req.unpipe();
+      request.req.pause();
+      reject(err);
+    };
+    const onData = (chunk: Buffer) => {
+      received += chunk.length;
+      if (received > limit) {
+        fail(tooLarge(limit, received));
+        return;
+      }
+      chunks.push(chunk);
+    };
+    const onEnd = () => {
+      cleanup();
+      if (identity && length !== undefined && received !== length) {
+        reject(
+          createHttpError(400, "request size did not match content length", {
+            type: "request.size.invalid",
+          })
+        );
+        return;
+      }
+      resolve(Buffer.concat(chunks));
+    };
+    const onError = (err: Error) => {
+      fail(createHttpError(400, err.message, { type: "encoding.invalid" }));
+    };
+    const onAborted = () => {
+      fail(
+        createHttpError(400, "request aborted", { type: "request.aborted" })
+      );
+    };
+
+    stream.on("data", onData);
+    stream.on("end", onEnd);
+    stream.on("error", onError);
+    request.req.on("aborted", onAborted);
+  });
+}
+
+async function collectMultipart(
+  request: Request,
+  opts: MultipartOptions
+): Promise<FormData> {
+  const maxFileSize = bytes(opts.maxFileSize || "10mb");
+  const maxFieldSize = bytes(opts.maxFieldSize || "1mb");
+  const maxFieldsSize = bytes(opts.maxFieldsSize || "2mb");
+  const maxTotalFileSize = opts.maxTotalFileSize
+    ? bytes(opts.maxTotalFileSize)
+    : Math.max(bytes("100mb"), maxFileSize);
+  const maxFiles = opts.maxFiles !== undefined ? opts.maxFiles : 100;
+  const maxFields = opts.maxFields !== undefined ? opts.maxFields : 1000;
+  const uploadDir = opts.uploadDir || os.tmpdir();
+
+  let boundary: string | undefined;
+  try {
+    boundary = contentType.parse(request.req).parameters.boundary;
+  } catch (err) {
+    // handled below
+  }
+  if (!boundary) {
+    throw createHttpError(400, "missing multipart boundary", {
+      type: "entity.parse.failed",
+    });
+  }
+
+  // null prototypes, field names come from the client
+  const form: FormData = {
+    fields: Object.create(null),
+    files: Object.create(null),
+  };
+  const written: string[] = [];
+  if (!opts.keepFiles) {
+    onFinished(request.ctx.res as OutgoingMessage, () => {
+      written.forEach((file) => fs.unlink(file, () => {}));
+    });
+  }
+
+  const stream = decode(request);
+  const parser = new MultipartParser(boundary);
+  let fieldCount = 0;
+  let fileCount = 0;
+  let fieldsSize = 0;
+  let filesSize = 0;
+  let part: {
+    name: string;
+    file?: UploadedFile;
+    out?: fs.WriteStream;
+    chunks: Buffer[];
+    size: number;
+    charset: string;
+  } | null = null;
+
+  const pending: Promise<void>[] = [];
+  // fails the parse, set once the stream is read
+  let abort: (err: Error) => void = () => {};
+  let writeError: Error | undefined;
+
+  parser.onPartBegin = (headers) => {
+    let disposition: contentDisposition.ContentDisposition;
+    try {
+      disposition = contentDisposition.parse(
+        headers["content-disposition"] || ""
+      );
+    } catch (err) {
+      throw createHttpError(
+        400,
+        "invalid Content-Disposition in multipart part",
+        {
+          type: "entity.parse.failed",
+        }
+      );
+    }
+    const name = disposition.parameters.name || "";
+    const filename = disposition.parameters.filename;
+    let type = "text/plain";
+    let charset = "utf-8";
+    if (headers["content-type"]) {
+      try {
+        const parsed = contentType.parse(headers["content-type"]);
+        type = parsed.type;
+        charset = parsed.parameters.charset || charset;
+      } catch (err) {
+        type = "application/octet-stream";
+      }
+    }
+
+    if (filename === undefined) {
+      if (++fieldCount > maxFields) {
+        throw createHttpError(413, "too many fields", { type: "fields.limit" });
+      }
+      part = { name, chunks: [], size: 0, charset };
+      return;
+    }
+
+    if (++fileCount > maxFiles) {
+      throw createHttpError(413, "too many files", { type: "files.limit" });
+    }
+    const file: UploadedFile = {
+      fieldname: name,
+      filename: path.basename(filename),
+      path: path.join(
+        uploadDir,
+        `upload_${crypto.randomBytes(16).toString("hex")}`
+      ),
+      type: headers["content-type"] ? type : "application/octet-stream",
+      size: 0,
+    };
+    const out = fs.createWriteStream(file.path);
+    written.push(file.path);
+    // not an ENOENT, which would be answered with a 404
+    out.on("error", (err) => {
+      writeError =
+        writeError ||
+        createHttpError(500, "failed to write uploaded file", {
+          type: "file.write.failed",
+          cause: err,
+        });
+      abort(writeError);
+    });
+    pending.push(new Promise((resolve) => out.on("close", resolve)));
+    part = { name, file, out, chunks: [], size: 0, charset };
+  };
+
+  parser.onPartData = (data) => {
+    if (!part) {
+      return;
+    }
+    part.size += data.length;
+    if (part.file && part.out) {
+      if (part.size > maxFileSize) {
+        throw createHttpError(
+          413,
+          `file "${part.file.filename}" exceeds ${maxFileSize} bytes`,
+          {
+            type: "file.limit",
+          }
+        );
+      }
+      filesSize += data.length;
+      if (filesSize > maxTotalFileSize) {
+        throw createHttpError(
+          413,
+          `files exceed ${maxTotalFileSize} bytes in total`,
+          {
+            type: "files.size.limit",
+          }
+        );
+      }
+      part.file.size = part.size;
+      if (!part.out.write(data)) {
+        stream.pause();
+        part.out.once("drain", () => stream.resume());
+      }
+      return;
+    }
+    if (part.size > maxFieldSize) {
+      throw createHttpError(
+        413,
+        `field "${part.name}" exceeds ${maxFieldSize} bytes`,
+        {
+          type: "field.limit",
+        }
+      );
+    }
+    fieldsSize += data.length;
+    if (fieldsSize > maxFieldsSize) {
+      throw createHttpError(
+        413,
+        `fields exceed ${maxFieldsSize} bytes in total`,
+        {
+          type: "fields.size.limit",
+        }
+      );
+    }
+    part.chunks.push(data);
+  };
+
+  parser.onPartEnd = () => {
+    if (!part) {
+      return;
+    }
+    if (part.file && part.out) {
+      part.out.end();
+      append(form.files, part.name, part.file);
+    } else {
+      let value: string;
+      try {
+        value = new TextDecoder(part.charset).decode(
+          Buffer.concat(part.chunks)
+        );
+      } catch (err) {
+        value = Buffer.concat(part.chunks).toString();
+      }
+      append(form.fields, part.name, value);
+    }
+    part = null;
+  };
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const fail = (err: Error) => {
+        stream.removeAllListeners("data");
+        request.req.unpipe();
+        request.req.pause();
+        reject(err);
+      };
+      abort = fail;
+      stream.on("data", (chunk: Buffer) => {
+        try {
+          parser.write(chunk);
+        } catch (err) {
+          fail(err as Error);
+        }
+      });
+      stream.on("end", () => {
+        if (!parser.ended) {
+          fail(
+            createHttpError(400, "unexpected end of multipart data", {
+              type: "entity.parse.failed",
+            })
+          );
+          return;
+        }
+        resolve();
+      });
+      stream.on("error", (err) =>
+        fail(createHttpError(400, err.message, { type: "encoding.invalid" }))
+      );
+      request.req.on("aborted", () =>
+        fail(
+          createHttpError(400, "request aborted", { type: "request.aborted" })
+        )
+      );
+    });
+    await Promise.all(pending);
+    // files may fail once the body is read
+    if (writeError) {
+      throw writeError;
+    }
+  } catch (err) {
+    const current = part as { out?: fs.WriteStream } | null;
+    if (current && current.out) {
+      current.out.destroy();
+    }
+    written.forEach((file) => fs.unlink(file, () => {}));
+    throw err;
+  }
+
+  return form;
+}
+
+/**
+ * Streaming multipart/form-data parser, RFC 7578.
+ */
+class MultipartParser {
+  public ended = false;
+  public onPartBegin: (headers: Record<string, string>) => void = () => {};
+  public onPartData: (data: Buffer) => void = () => {};
+  public onPartEnd: () => void = () => {};
+  private delimiter: Buffer;
+  private buffer: Buffer;
+  private state: "preamble" | "delimiter" | "headers" | "body" | "end" =
+    "preamble";
+  constructor(boundary: string) {
+    this.delimiter = Buffer.from(`\r\n--${boundary}`);
+    // the first delimiter is not preceded by a CRLF
+    this.buffer = Buffer.from("\r\n");
+  }
+  public write(chunk: Buffer) {
+    this.buffer = this.buffer.length
+      ? Buffer.concat([this.buffer, chunk])
+      : chunk;
+    for (;;) {
+      switch (this.state) {
+        case "preamble": {
+          const index = this.buffer.indexOf(this.delimiter);
+          if (index < 0) {
+            this.keepTail();
+            return;
+          }
+          this.buffer = this.buffer.slice(index + this.delimiter.length);
+          this.state = "delimiter";
+          break;
+        }
+        case "delimiter": {
+          if (this.buffer.length < 2) {
+            return;
+          }
+          if (this.buffer[0] === 0x2d && this.buffer[1] === 0x2d) {
+            this.state = "end";
+            this.ended = true;
+            break;
+          }
+          const index = this.buffer.indexOf("\r\n");
+          if (index < 0) {
+            return;
+          }
+          // skip transport padding
+          this.buffer = this.buffer.slice(index + 2);
+          this.state = "headers";
+          break;
+        }
+        case "headers": {
+          const index = this.buffer.indexOf("\r\n\r\n");
+          if (index < 0) {
+            if (this.buffer.length > 16384) {
+              throw createHttpError(400, "multipart headers too large", {
+                type: "entity.parse.failed",
+              });
+            }
+            return;
+          }
+          const headers: Record<string, string> = {};
+          this.buffer
+            .slice(0, index)
+            .toString("utf8")
+            .split("\r\n")
+            .forEach((line) => {
+              const colon = line.indexOf(":");
+              if (colon > 0) {
+                const key = line.slice(0, colon).trim().toLowerCase();
+                headers[key] = line.slice(colon + 1).trim();
+              }
+            });
+          this.buffer = this.buffer.slice(index + 4);
+          this.state = "body";
+          this.onPartBegin(headers);
+          break;
+        }
+        case "body": {
+          const index = this.buffer.indexOf(this.delimiter);
+          if (index < 0) {
+            // keep enough to match a delimiter split across chunks
+            const safe = this.buffer.length - this.delimiter.length + 1;
+            if (safe > 0) {
+              this.onPartData(this.buffer.slice(0, safe));
+              this.buffer = this.buffer.slice(safe);
+            }
+            return;
+          }
+          if (index > 0) {
+            this.onPartData(this.buffer.slice(0, index));
+          }
+          this.buffer = this.buffer.slice(index + this.delimiter.length);
+          this.state = "delimiter";
+          this.onPartEnd();
+          break;
+        }
+        case "end":
+          // ignore the epilogue
+          this.buffer = Buffer.alloc(0);
+          return;
+      }
+    }
+  }
+  private keepTail() {
+    const keep = this.delimiter.length - 1;
+    if (this.buffer.length > keep) {
+      this.buffer = this.buffer.slice(this.buffer.length - keep);
+    }
+  }
+}
+
+/**
+ * Decompress the request stream according to Content-Encoding.
+ */
+function decode(request: Request): Readable {
+  const encoding = (
+    request.get("Content-Encoding") || "identity"
+  ).toLowerCase();
+  switch (encoding) {
+    case "identity":
+      return request.req;
+    case "gzip":
+    case "x-gzip":
+      return request.req.pipe(zlib.createGunzip());
+    case "deflate":
+      return request.req.pipe(zlib.createInflate());
+    case "br":
+      return request.req.pipe(zlib.createBrotliDecompress());
+    default:
+      throw createHttpError(415, `unsupported content encoding "${encoding}"`, {
+        type: "encoding.unsupported",
+        encoding,
+      });
+  }
+}
+
+function tooLarge(limit: number, length: number) {
+  return createHttpError(413, "request entity too large", {
+    type: "entity.too.large",
+    limit,
+    length,
+  });
+}
+
+function append<T>(obj: Record<string, T | T[]>, key: string, value: T) {
+  if (!(key in obj)) {
+    obj[key] = value;
+  } else if (Array.isArray(obj[key])) {
+    (obj[key] as T[]).push(value);
+  } else {
+    obj[key] = [obj[key] as T, value];
+  }
+}
@@ -21,3 +21,19 @@ export const getType = (type: string) => {
   }
   return mimeType;
 };
+
+const BYTE_UNITS = { b: 1, kb: 1 << 10, mb: 1 << 20, gb: 1 << 30 };
+/**
+ * Parse a byte size such as `1024`, `"56kb"` or `"1.5mb"` into bytes.
+ */
+export const bytes = (size: number | string): number => {
+  if (typeof size === "number") {
+    return size;
+  }
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?\s*$/i.exec(size);
+  if (!match) {
+    throw new TypeError(`invalid byte size: ${size}`);
+  }
+  const unit = (match[2] || "b").toLowerCase();
+  return Math.floor(parseFloat(match[1]) * BYTE_UNITS[unit]);
+};
@@ -0,0 +1,112 @@
+import { Stream } from "stream";
+import zlib from "zlib";
+import compressible from "compressible";
+import { bytes } from "./common";
+import type { Context } from "./context";
+
+export interface CompressOptions {
+  /**
+   * Minimum response size to compress, in bytes or as a string
+   * like `"1kb"`, defaults to `1024`. Streams of unknown length
+   * are always compressed.
+   */
+  threshold?: number | string;
+  /**
+   * Decide from the response type if it is worth compressing,
+   * defaults to the compressible types of mime-db.
+   */
+  filter?: (type: string) => boolean;
+  /**
+   * Options of each encoding, `false` to disable it.
+   */
+  gzip?: zlib.ZlibOptions | false;
+  deflate?: zlib.ZlibOptions | false;
+  br?: zlib.BrotliOptions | false;
+}
+
+const NO_TRANSFORM_REGEXP = /(?:^|,)\s*?no-transform\s*?(?:,|$)/;
+
+// in order of preference when the client has no preference
+const ENCODINGS = ["br", "gzip", "deflate"] as const;
+type Encoding = (typeof ENCODINGS)[number];
+
+const defaultFilter = (type: string) => !!compressible(type);
+
+const defaults: Record<Encoding, zlib.ZlibOptions | zlib.BrotliOptions> = {
+  // the default quality of 11 is too slow for dynamic responses
+  br: { params: { [zlib.constants.BROTLI_PARAM_QUALITY]: 4 } },
+  gzip: {},
+  deflate: {},
+};
+
+/**
+ * Compress the body of `ctx` with the encoding the client
+ * prefers, replacing it with the compressed stream.
+ * `ctx.compress` forces or skips compression per response.
+ */
+export function compress(ctx: Context, opts: CompressOptions = {}) {
+  const response = ctx.response;
+  const body = response.body;
+  if (body == null || ctx.compress === false) {
+    return;
+  }
+  if (ctx.method === "HEAD" || response.has("Content-Encoding")) {
+    return;
+  }
+  if (response.has("Content-Range")) {
+    return;
+  }
+  if (NO_TRANSFORM_REGEXP.test(String(response.get("Cache-Control")))) {
+    return;
+  }
+  const filter = opts.filter || defaultFilter;
+  if (ctx.compress !== true && !filter(response.type)) {
+    return;
+  }
+
+  // the representation depends on the encoding from now on
+  response.vary("Accept-Encoding");
+
+  const threshold = opts.threshold === undefined ? 1024 : bytes(opts.threshold);
+  const { length } = response;
+  if (ctx.compress !== true && length !== undefined && length < threshold) {
+    return;
+  }
+
+  const encodings = ENCODINGS.filter((name) => opts[name] !== false);
+  const encoding = ctx.acceptsEncodings(...encodings, "identity");
+  if (!encoding || encoding === "identity") {
+    return;
+  }
+
+  const stream = createStream(encoding as Encoding, opts);
+  response.set("Content-Encoding", encoding);
+  response.remove("Content-Length");
+  // the compressed bytes differ, a strong tag would claim otherwise
+  const etag = response.etag;
+  if (etag && !etag.startsWith("W/")) {
+    response.etag = `W/${etag}`;
+  }
+  if (body instanceof Stream) {
+    body.pipe(stream);
+  } else {
+    stream.end(
+      typeof body === "string" || Buffer.isBuffer(body)
+        ? body
+        : JSON.stringify(body)
+    );
+  }
+  response.body = stream;
+}
+
+function createStream(encoding: Encoding, opts: CompressOptions) {
+  const options = { ...defaults[encoding], ...(opts[encoding] || {}) };
+  switch (encoding) {
+    case "br":
+      return zlib.createBrotliCompress(options as zlib.BrotliOptions);
+    case "gzip":
+      return zlib.createGzip(options as zlib.ZlibOptions);
+    default:
+      return zlib.createDeflate(options as zlib.ZlibOptions);
+  }
+}
@@ -1,5 +1,645 @@
-export class Context {}
+import { Stream } from "stream";
+import util from "util";
+import destroy from "destroy";
+import escape from "escape-html";
+import statuses from "statuses";
+import type Application from "./application";
+import type { DefaultContext, DefaultState } from "./application";
+import { getType } from "./common";
+import { Cookies } from "./cookies";
+import { CORS } from "./cors";
+import { createHttpError, HttpErrorProps } from "./errors";
+import { preconditionFailed, Validators } from "./etag";
+import { requestId } from "./logger";
+import { RATE_LIMIT } from "./ratelimit";
+import { IncomingRequest, Request } from "./request";
+import { OutgoingResponse, Responce } from "./responce";
+import { SECURITY_HEADERS } from "./security";
+import { Session, SESSION, SessionHandler } from "./session";
+import {
+  acceptUpgrade,
+  isUpgradable,
+  WebSocket,
+  WebSocketOptions,
+} from "./websocket";
 
-const context = new Context();
+export type FormatHandler = (ctx: Context) => any;
+/**
+ * Handlers keyed by type, a handler can be a map of
+ * language variants keyed by language tag.
+ */
+export type FormatHandlers = {
+  [type: string]: FormatHandler | { [language: string]: FormatHandler };
+};
 
-export default context;
+/**
+ * `Context` with a typed `state`, the custom properties
+ * of `ContextT` and a typed response body.
+ */
+export type ParameterizedContext<
+  StateT = DefaultState,
+  ContextT = DefaultContext,
+  BodyT = unknown
+> = Context &
+  ContextT & {
+    state: StateT;
+    body: BodyT;
+    response: Responce & { body: BodyT };
+  };
+
+const COOKIES: unique symbol = Symbol("context#cookies");
+const ABORT: unique symbol = Symbol("context#abort");
+const ID: unique symbol = Symbol("context#id");
+export class Context {
+  public app: Application<any, any>;
+  public req: IncomingRequest;
+  public res: OutgoingResponse;
+  public request: Request;
+  public response: Responce;
+  public originalUrl: string;
+  public state: Record<string, any> = {};
+  /**
+   * Path params of the matched route.
+   */
+  public params: Record<string, string> = {};
+  /**
+   * Path and name of the matched route.
+   */
+  public routePath?: string;
+  public routeName?: string;
+  /**
+   * Set to `false` to bypass the built-in response handling
+   * and write to the raw `res` yourself.
+   */
+  public respond?: boolean;
+  /**
+   * Force (`true`) or skip (`false`) compression of this response,
+   * by default it depends on its type and size.
+   */
+  public compress?: boolean;
+  /**
+   * Time at which the request times out, in milliseconds since
+   * the epoch, for nested calls to bound their own work:
+   *
+   *    await db.query(sql, { timeout: ctx.deadline - Date.now() });
+   */
+  public deadline?: number;
+  private [COOKIES]?: Cookies;
+  private [ABORT]?: AbortController;
+  private [ID]?: string;
+  public [SESSION]?: SessionHandler;
+  public [CORS]?: Record<string, string>;
+  public [SECURITY_HEADERS]?: Record<string, string>;
+  public [RATE_LIMIT]?: Record<string, string>;
+  constructor(
+    app: Application<any, any>,
+    req: IncomingRequest,
+    res: OutgoingResponse
+  ) {
+    this.app = app;
+    this.req = req;
+    this.res = res;
+    this.originalUrl = req.url || "";
+    this.response = new Responce(res, req);
+    this.request = new Request(req, app, this, this.response, this.originalUrl);
+    this.response.app = app;
+    this.response.ctx = this;
+    this.response.request = this.request;
+    // util.inspect.custom support for node 6+
+    /* istanbul ignore else */
+    if (util.inspect.custom) {
+      this[util.inspect.custom] = this.inspect;
+    }
+  }
+  /**
+   * util.inspect() implementation, which
+   * just returns the JSON output.
+   */
+  public inspect() {
+    return this.toJSON();
+  }
+  /**
+   * Return JSON representation.
+   *
+   * Here we explicitly invoke .toJSON() on each
+   * object, as iteration will otherwise fail due
+   * to the getters and cause utilities such as
+   * clone() to fail.
+   */
+  public toJSON() {
+    return {
+      request: this.request.toJSON(),
+      response: this.response.toJSON(),
+      app: this.app.toJSON(),
+      originalUrl: this.originalUrl,
+      req: "<original node req>",
+      res: "<original node res>",
+      socket: "<original node socket>",
+    };
+  }
+  /**
+   * ID of the request, from the `X-Request-Id` header or the
+   * one of the `requestId` option when valid, generated otherwise.
+   */
+  public get id(): string {
+    if (this[ID] === undefined) {
+      this[ID] = requestId(this, this.app.requestId || {});
+    }
+    return this[ID];
+  }
+  public set id(val: string) {
+    this[ID] = val;
+  }
+  /**
+   * Signal aborted when the request times out or the client
+   * disconnects, to cancel downstream work:
+   *
+   *    const res = await fetch(url, { signal: ctx.signal });
+   */
+  public get signal(): AbortSignal {
+    if (!this[ABORT]) {
+      this[ABORT] = new AbortController();
+    }
+    return this[ABORT].signal;
+  }
+  /**
+   * Abort `ctx.signal` with `reason`, destroying a stream body.
+   */
+  public abort(reason?: any) {
+    const signal = this.signal;
+    if (signal.aborted) {
+      return;
+    }
+    const body = this.response.body;
+    if (body instanceof Stream) {
+      destroy(body);
+    }
+    this[ABORT]!.abort(reason);
+  }
+  /**
+   * Cookies of the request, signed with `app.keys`.
+   * Lazily created.
+   */
+  public get cookies(): Cookies {
+    if (!this[COOKIES]) {
+      this[COOKIES] = new Cookies(this, {
+        keys: this.app.keys,
+        secure: this.request.secure,
+      });
+    }
+    return this[COOKIES] as Cookies;
+  }
+  public set cookies(cookies: Cookies) {
+    this[COOKIES] = cookies;
+  }
+  /**
+   * Session of the `session()` middleware, assign `null`
+   * to destroy it or an object to replace its data.
+   */
+  public get session(): Session | null {
+    const handler = this[SESSION];
+    if (!handler) {
+      throw new Error("ctx.session requires the session() middleware");
+    }
+    return handler.get();
+  }
+  public set session(val: Record<string, any> | null) {
+    const handler = this[SESSION];
+    if (!handler) {
+      throw new Error("ctx.session requires the session() middleware");
+    }
+    handler.set(val);
+  }
+  /**
+   * Similar to .throw(), adds assertion.
+   *
+   *    this.assert(this.user, 401, 'Please login!');
+   */
+  public assert(
+    value: any,
+    status?: number,
+    msg?: string,
+    props?: HttpErrorProps
+  ): asserts value {
+    if (!value) {
+      throw createHttpError(status, msg, props);
+    }
+  }
+  /**
+   * Throw `412 Precondition Failed` when the `If-Match` or
+   * `If-Unmodified-Since` header does not match the current
+   * validators of the resource, defaulting to the response's.
+   * Call it before changing the resource in unsafe methods,
+   * the `etag` option only checks GET and HEAD requests.
+   *
+   *    this.assertPreconditions({ etag: doc.etag });
+   *    await doc.update(body);
+   */
+  public assertPreconditions(validators?: Validators) {
+    const current = validators || {
+      etag: this.response.etag,
+      lastModified: this.response.lastModified,
+    };
+    if (preconditionFailed(this, current)) {
+      throw createHttpError(412);
+    }
+  }
+  /**
+   * Respond with the handler of the type the client accepts best,
+   * setting the response type and `Vary: Accept`. A handler
+   * resolving to a value sets it as body. The `default` handler
+   * runs when no type matches, otherwise `406` is thrown with the
+   * supported types.
+   *
+   *    await this.format({
+   *      json: () => user,
+   *      html: { en: () => render('en'), fr: () => render('fr') },
+   *      'text/csv': (ctx) => toCsv(ctx, user),
+   *      default: () => user.name,
+   *    });
+   */
+  public async format(handlers: FormatHandlers) {
+    const { default: fallback, ...variants } = handlers;
+    const types = Object.keys(variants);
+    this.vary("Accept");
+
+    const type = types.length ? this.accepts(types) : false;
+    let handler: FormatHandlers[string] | undefined;
+    if (type) {
+      this.type = type;
+      handler = variants[type];
+    } else if (fallback) {
+      handler = fallback;
+    } else {
+      const supported = types.map((key) => mediaType(key));
+      throw createHttpError(
+        406,
+        `Not Acceptable, supported types: ${supported.join(", ")}`,
+        { types: supported, headers: { Vary: "Accept" } }
+      );
+    }
+
+    if (typeof handler !== "function") {
+      handler = this.formatLanguage(handler);
+    }
+    const result = await handler(this);
+    if (result !== undefined) {
+      this.body = result;
+    }
+    return result;
+  }
+  /**
+   * Pick the language variant of `handlers` by `Accept-Language`.
+   */
+  private formatLanguage(handlers: { [language: string]: FormatHandler }) {
+    const { default: fallback, ...variants } = handlers;
+    const languages = Object.keys(variants);
+    this.vary("Accept-Language");
+
+    const language = languages.length
+      ? this.acceptsLanguages(languages)
+      : false;
+    if (language) {
+      this.set("Content-Language", language);
+      return variants[language];
+    }
+    if (fallback) {
+      return fallback;
+    }
+    throw createHttpError(
+      406,
+      `Not Acceptable, supported languages: ${languages.join(", ")}`,
+      { languages, headers: { Vary: "Accept, Accept-Language" } }
+    );
+  }
+  /**
+   * Check if the request asks for a WebSocket upgrade
+   * that can still be accepted with `upgrade()`.
+   */
+  public get upgradable(): boolean {
+    return isUpgradable(this);
+  }
+  /**
+   * Accept the WebSocket upgrade of the request, after the
+   * middleware before had a chance to reject it. Throws
+   * `426` when the request can't be upgraded.
+   *
+   *    const ws = this.upgrade({ perMessageDeflate: true });
+   *    ws.on('message', (data) => ws.send(data));
+   */
+  public upgrade(opts?: WebSocketOptions): WebSocket {
+    return acceptUpgrade(this, opts);
+  }
+  /**
+   * Throw an error with `status` (default 500) and
+   * `msg`. Note that these are user-level
+   * errors, and the message may be exposed to the client.
+   *
+   *    this.throw(403)
+   *    this.throw(400, 'name required')
+   *    this.throw('something exploded')
+   *    this.throw(new Error('invalid'))
+   *    this.throw(400, new Error('invalid'))
+   *    this.throw(400, 'name required', { user: user })
+   */
+  public throw(
+    ...args: (number | string | Error | HttpErrorProps | undefined)[]
+  ): never {
+    throw createHttpError(...args);
+  }
+  /**
+   * Default error handling.
+   */
+  public onerror(err: any) {
+    // don't do anything if there is no error.
+    // this allows you to pass `this.onerror`
+    // to node-style callbacks.
+    if (null == err) {
+      return;
+    }
+    // When dealing with cross-globals a normal `instanceof` check doesn't work properly.
+    const isNativeError =
+      Object.prototype.toString.call(err) === "[object Error]" ||
+      err instanceof Error;
+    if (!isNativeError) {
+      err = new Error(util.format("non-error thrown: %j", err));
+    }
+
+    let headerSent = false;
+    if (this.headerSent || !this.writable) {
+      headerSent = err.headerSent = true;
+    }
+
+    // delegate
+    this.app.emit("error", err, this);
+
+    // nothing we can do here other
+    // than delegate to the app-level
+    // handler and log.
+    if (headerSent) {
+      return;
+    }
+
+    const res = this.res;
+
+    // first unset all headers
+    res.getHeaderNames().forEach((name) => res.removeHeader(name));
+
+    // then set those specified
+    if (this.app.requestId) {
+      this.set(this.app.requestId.header, this.id);
+    }
+    if (this.app.closing && this.req.httpVersionMajor < 2) {
+      this.set("Connection", "close");
+    }
+    if (err.headers) {
+      this.set(err.headers);
+    }
+    if (this[CORS]) {
+      this.set(this[CORS]);
+      this.vary("Origin");
+    }
+    if (this[SECURITY_HEADERS]) {
+      this.set(this[SECURITY_HEADERS]);
+    }
+    if (this[RATE_LIMIT]) {
+      this.set(this[RATE_LIMIT]);
+    }
+
+    let statusCode = err.status || err.statusCode;
+
+    // ENOENT support
+    if (err.code === "ENOENT") {
+      statusCode = 404;
+    }
+
+    // default to 500
+    if (typeof statusCode !== "number" || !statuses.message[statusCode]) {
+      statusCode = 500;
+    }
+
+    // respond
+    const code = statuses.message[statusCode] as string;
+    const msg: string = err.expose ? err.message : code;
+    this.status = err.status = statusCode;
+
+    let body: string;
+    switch (this.accepts("text", "json", "html")) {
+      case "json":
+        this.type = "json";
+        body = JSON.stringify({
+          status: statusCode,
+          message: msg,
+          // field level details such as validation issues
+          errors: err.expose ? err.errors : undefined,
+        });
+        break;
+      case "html":
+        this.type = "html";
+        body = `<!DOCTYPE html><html><head><title>${statusCode} ${escape(
+          code
+        )}</title></head><body><h1>${escape(msg)}</h1></body></html>`;
+        break;
+      default:
+        this.type = "text";
+        body = msg;
+    }
+    this.length = Buffer.byteLength(body);
+    res.end(body);
+  }
+
+  /**
+   * Response delegation.
+   */
+
+  public attachment(...args: Parameters<Responce["attachment"]>) {
+    return this.response.attachment(...args);
+  }
+  public redirect(...args: Parameters<Responce["redirect"]>) {
+    return this.response.redirect(...args);
+  }
+  public remove(...args: Parameters<Responce["remove"]>) {
+    return this.response.remove(...args);
+  }
+  public vary(...args: Parameters<Responce["vary"]>) {
+    return this.response.vary(...args);
+  }
+  public has(...args: Parameters<Responce["has"]>) {
+    return this.response.has(...args);
+  }
+  public set(...args: Parameters<Responce["set"]>) {
+    return this.response.set(...args);
+  }
+  public append(...args: Parameters<Responce["append"]>) {
+    return this.response.append(...args);
+  }
+  public flushHeaders() {
+    return this.response.flushHeaders();
+  }
+  public sse(...args: Parameters<Responce["sse"]>) {
+    return this.response.sse(...args);
+  }
+  public get status() {
+    return this.response.status;
+  }
+  public set status(val) {
+    this.response.status = val;
+  }
+  public get message() {
+    return this.response.message;
+  }
+  public set message(val) {
+    this.response.message = val;
+  }
+  public get body(): unknown {
+    return this.response.body;
+  }
+  public set body(val: unknown) {
+    this.response.body = val;
+  }
+  public get length() {
+    return this.response.length;
+  }
+  public set length(val) {
+    this.response.length = val;
+  }
+  public get type() {
+    return this.response.type;
+  }
+  public set type(val) {
+    this.response.type = val;
+  }
+  public get lastModified() {
+    return this.response.lastModified;
+  }
+  public set lastModified(val) {
+    this.response.lastModified = val;
+  }
+  public get etag() {
+    return this.response.etag;
+  }
+  public set etag(val) {
+    this.response.etag = val;
+  }
+  public get headerSent() {
+    return this.response.headerSent;
+  }
+  public get writable() {
+    return this.response.writable;
+  }
+
+  /**
+   * Request delegation.
+   */
+
+  public acceptsLanguages(...args: Parameters<Request["acceptsLanguages"]>) {
+    return this.request.acceptsLanguages(...args);
+  }
+  public acceptsEncodings(...args: Parameters<Request["acceptsEncodings"]>) {
+    return this.request.acceptsEncodings(...args);
+  }
+  public acceptsCharsets(...args: Parameters<Request["acceptsCharsets"]>) {
+    return this.request.acceptsCharsets(...args);
+  }
+  public accepts(...args: Parameters<Request["accepts"]>) {
+    return this.request.accepts(...args);
+  }
+  public get(...args: Parameters<Request["get"]>) {
+    return this.request.get(...args);
+  }
+  public is(...args: Parameters<Request["is"]>) {
+    return this.request.is(...args);
+  }
+  public get querystring() {
+    return this.request.querystring;
+  }
+  public set querystring(val) {
+    this.request.querystring = val;
+  }
+  public get idempotent() {
+    return this.request.idempotent;
+  }
+  public get socket() {
+    return this.request.socket;
+  }
+  public get search() {
+    return this.request.search;
+  }
+  public set search(val) {
+    this.request.search = val;
+  }
+  public get method() {
+    return this.request.method;
+  }
+  public set method(val) {
+    this.request.method = val;
+  }
+  public get query() {
+    return this.request.query;
+  }
+  public set query(val) {
+    this.request.query = val;
+  }
+  public get path() {
+    return this.request.path;
+  }
+  public set path(val) {
+    this.request.path = val;
+  }
+  public get url() {
+    return this.request.url;
+  }
+  public set url(val) {
+    this.request.url = val;
+  }
+  public get origin() {
+    return this.request.origin;
+  }
+  public get href() {
+    return this.request.href;
+  }
+  public get subdomains() {
+    return this.request.subdomains;
+  }
+  public get protocol() {
+    return this.request.protocol;
+  }
+  public get host() {
+    return this.request.host;
+  }
+  public get hostname() {
+    return this.request.hostname;
+  }
+  public get URL() {
+    return this.request.URL;
+  }
+  public get header() {
+    return this.request.header;
+  }
+  public get headers() {
+    return this.request.headers;
+  }
+  public get secure() {
+    return this.request.secure;
+  }
+  public get stale() {
+    return this.request.stale;
+  }
+  public get fresh() {
+    return this.request.fresh;
+  }
+  public get ips() {
+    return this.request.ips;
+  }
+  public get ip() {
+    return this.request.ip;
+  }
+}
+
+/**
+ * Full media type of a `format()` key, "json" -> "application/json".
+ */
+function mediaType(type: string) {
+  const mime = getType(type);
+  return mime ? mime.split(";")[0] : type;
+}
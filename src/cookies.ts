@@ -0,0 +1,333 @@
+import crypto from "crypto";
+import type { Context } from "./context";
+
+/**
+ * RegExp to match field-content in RFC 7230 sec 3.2
+ *
+ * field-content = field-vchar [ 1*( SP / HTAB ) field-vchar ]
+ * field-vchar   = VCHAR / obs-text
+ * obs-text      = %x80-FF
+ */
+const FIELD_CONTENT_REGEXP = /^[\u0009\u0020-\u007e\u0080-\u00ff]+$/;
+
+/**
+ * RegExp to match Priority cookie attribute value.
+ */
+const PRIORITY_REGEXP = /^(?:low|medium|high)$/i;
+
+/**
+ * RegExp to match SameSite cookie attribute value.
+ */
+const SAME_SITE_REGEXP = /^(?:lax|none|strict)$/i;
+
+export interface CookieOptions {
+  /**
+   * Milliseconds from `Date.now()` for expiry.
+   */
+  maxAge?: number;
+  expires?: Date;
+  path?: string | null;
+  domain?: string;
+  /**
+   * Only send the cookie over HTTPS, defaults to
+   * `true` when the request is secure.
+   */
+  secure?: boolean;
+  httpOnly?: boolean;
+  sameSite?: "strict" | "lax" | "none" | boolean;
+  partitioned?: boolean;
+  priority?: "low" | "medium" | "high";
+  /**
+   * Sign the cookie with the app keys, defaults
+   * to `true` when keys are configured.
+   */
+  signed?: boolean;
+  /**
+   * Replace a previously set cookie of the same name.
+   */
+  overwrite?: boolean;
+}
+
+/**
+ * Sign and verify data against a rotating list of keys.
+ * New signatures always use the first key, while verification
+ * accepts any of them so old keys can be retired gradually.
+ */
+export class Keygrip {
+  public keys: string[];
+  public algorithm: string;
+  constructor(keys: string[], algorithm: string = "sha256") {
+    if (!keys || !keys.length) {
+      throw new Error("Keys must be provided.");
+    }
+    this.keys = keys;
+    this.algorithm = algorithm;
+  }
+  /**
+   * Sign `data` with the first key.
+   */
+  public sign(data: string): string {
+    return this.digest(data, this.keys[0]);
+  }
+  /**
+   * Return the index of the key that produced `digest`,
+   * or -1 when none of them did.
+   */
+  public index(data: string, digest: string): number {
+    for (let i = 0; i < this.keys.length; i++) {
+      if (safeCompare(digest, this.digest(data, this.keys[i]))) {
+        return i;
+      }
+    }
+    return -1;
+  }
+  public verify(data: string, digest: string): boolean {
+    return this.index(data, digest) > -1;
+  }
+  private digest(data: string, key: string) {
+    return crypto
+      .createHmac(this.algorithm, key)
+      .update(data)
+      .digest("base64")
+      .replace(/=+$/, "")
+      .replace(/\//g, "_")
+      .replace(/\+/g, "-");
+  }
+}
+
+/**
+ * Read and write request cookies, signed with `app.keys`.
+ *
+ *    ctx.cookies.set('name', 'tobi', { signed: true });
+ *    ctx.cookies.get('name', { signed: true });
+ */
+export class Cookies {
+  public ctx: Context;
+  public keys?: Keygrip;
+  public secure: boolean;
+  constructor(
+    ctx: Context,
+    options: { keys?: string[] | Keygrip; secure?: boolean } = {}
+  ) {
+    this.ctx = ctx;
+    const keys = options.keys;
+    if (keys instanceof Keygrip) {
+      this.keys = keys;
+    } else if (keys && keys.length) {
+      this.keys = new Keygrip(keys);
+    }
+    this.secure = options.secure || false;
+  }
+  /**
+   * Get the value of cookie `name`. With `signed` the
+   * `name.sig` signature is verified against every key,
+   * the signature is refreshed when an older key matched
+   * and dropped when none did.
+   */
+  public get(
+    name: string,
+    opts: { signed?: boolean } = {}
+  ): string | undefined {
+    const sigName = `${name}.sig`;
+    const signed = opts.signed !== undefined ? opts.signed : !!this.keys;
+
+    const header = this.ctx.request.get("Cookie");
+    if (!header) {
+      return;
+    }
+
+    const value = parseCookies(header)[name];
+    if (value === undefined) {
+      return;
+    }
+    if (!signed) {
+      return value;
+    }
+
+    const remote = this.get(sigName, { signed: false });
+    if (!remote) {
+      return;
+    }
+
+    const data = `${name}=${value}`;
+    if (!this.keys) {
+      throw new Error(".keys required for signed cookies");
+    }
+    const index = this.keys.index(data, remote);
+
+    if (index < 0) {
+      this.set(sigName, null, { path: "/", signed: false });
+      return;
+    }
+    if (index > 0) {
+      this.set(sigName, this.keys.sign(data), { signed: false });
+    }
+    return value;
+  }
+  /**
+   * Set cookie `name` to `value`, pass `null` to delete it.
+   */
+  public set(name: string, value?: string | null, opts: CookieOptions = {}) {
+    const signed = opts.signed !== undefined ? opts.signed : !!this.keys;
+    const secure = opts.secure !== undefined ? opts.secure : this.secure;
+
+    if (!this.secure && opts.secure) {
+      throw new Error("Cannot send secure cookie over unencrypted connection");
+    }
+
+    const cookie: CookieOptions = {
+      path: "/",
+      httpOnly: true,
+      ...opts,
+      secure,
+    };
+    if (!value) {
+      value = "";
+      cookie.expires = new Date(0);
+      cookie.maxAge = undefined;
+    }
+
+    let headers = pushCookie(
+      this.ctx.response.get("Set-Cookie"),
+      name,
+      serializeCookie(name, value, cookie),
+      cookie.overwrite
+    );
+
+    if (signed) {
+      if (!this.keys) {
+        throw new Error(".keys required for signed cookies");
+      }
+      const sigName = `${name}.sig`;
+      const sigValue = value ? this.keys.sign(`${name}=${value}`) : "";
+      headers = pushCookie(
+        headers,
+        sigName,
+        serializeCookie(sigName, sigValue, cookie),
+        cookie.overwrite
+      );
+    }
+
+    this.ctx.response.set("Set-Cookie", headers);
+    return this;
+  }
+}
+
+/**
+ * Serialize a cookie into a Set-Cookie header value.
+ *
+ *    serializeCookie('foo', 'bar', { httpOnly: true });
+ *    // => "foo=bar; httponly"
+ */
+export function serializeCookie(
+  name: string,
+  value: string,
+  opts: CookieOptions = {}
+): string {
+  if (!FIELD_CONTENT_REGEXP.test(name)) {
+    throw new TypeError("argument name is invalid");
+  }
+  if (value && !FIELD_CONTENT_REGEXP.test(value)) {
+    throw new TypeError("argument value is invalid");
+  }
+
+  let header = `${name}=${value}`;
+
+  let expires = opts.expires;
+  if (opts.maxAge != null) {
+    if (!Number.isFinite(opts.maxAge)) {
+      throw new TypeError("option maxAge is invalid");
+    }
+    expires = new Date(Date.now() + opts.maxAge);
+  }
+
+  if (opts.path) {
+    if (!FIELD_CONTENT_REGEXP.test(opts.path)) {
+      throw new TypeError("option path is invalid");
+    }
+    header += `; path=${opts.path}`;
+  }
+  if (expires) {
+    header += `; expires=${expires.toUTCString()}`;
+  }
+  if (opts.domain) {
+    if (!FIELD_CONTENT_REGEXP.test(opts.domain)) {
+      throw new TypeError("option domain is invalid");
+    }
+    header += `; domain=${opts.domain}`;
+  }
+  if (opts.priority) {
+    if (!PRIORITY_REGEXP.test(opts.priority)) {
+      throw new TypeError("option priority is invalid");
+    }
+    header += `; priority=${opts.priority.toLowerCase()}`;
+  }
+  if (opts.sameSite) {
+    const sameSite = opts.sameSite === true ? "strict" : opts.sameSite;
+    if (!SAME_SITE_REGEXP.test(sameSite)) {
+      throw new TypeError("option sameSite is invalid");
+    }
+    header += `; samesite=${sameSite.toLowerCase()}`;
+  }
+  if (opts.secure) {
+    header += "; secure";
+  }
+  if (opts.httpOnly) {
+    header += "; httponly";
+  }
+  if (opts.partitioned) {
+    header += "; partitioned";
+  }
+
+  return header;
+}
+
+/**
+ * Parse a Cookie header into a name/value map,
+ * the first occurrence of a name wins. Values are
+ * returned as sent, like `set()` writes them, so
+ * signatures verify against the raw value.
+ */
+export function parseCookies(header: string): Record<string, string> {
+  const cookies: Record<string, string> = Object.create(null);
+  for (const pair of header.split(";")) {
+    const index = pair.indexOf("=");
+    if (index < 0) {
+      continue;
+    }
+    const key = pair.slice(0, index).trim();
+    if (!key || key in cookies) {
+      continue;
+    }
+    let val = pair.slice(index + 1).trim();
+    if (val[0] === '"') {
+      val = val.slice(1, -1);
+    }
+    cookies[key] = val;
+  }
+  return cookies;
+}
+
+function pushCookie(
+  prev: string | number | string[],
+  name: string,
+  header: string,
+  overwrite?: boolean
+): string[] {
+  let headers: string[] = Array.isArray(prev)
+    ? prev.slice()
+    : prev
+    ? [String(prev)]
+    : [];
+  if (overwrite) {
+    headers = headers.filter((h) => h.indexOf(`${name}=`) !== 0);
+  }
+  headers.push(header);
+  return headers;
+}
+
+function safeCompare(a: string, b: string) {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
@@ -0,0 +1,157 @@
+import type { Context } from "./context";
+
+export type CorsOrigin =
+  | string
+  | RegExp
+  | (string | RegExp)[]
+  | ((
+      origin: string,
+      ctx: Context
+    ) => boolean | string | Promise<boolean | string>);
+
+export interface CorsOptions {
+  /**
+   * Allowed origins: `"*"`, an origin, a regexp, a list of them,
+   * or a predicate which may return the origin to allow.
+   * Defaults to `"*"`.
+   */
+  origin?: CorsOrigin;
+  /**
+   * Allow cookies and authorization headers, which needs
+   * `origin` to list the allowed origins or be a predicate.
+   */
+  credentials?: boolean;
+  /**
+   * Methods allowed by preflights, defaults to
+   * `GET,HEAD,PUT,POST,DELETE,PATCH`.
+   */
+  allowMethods?: string[];
+  /**
+   * Headers allowed by preflights, defaults to the ones
+   * of `Access-Control-Request-Headers`.
+   */
+  allowHeaders?: string[];
+  /**
+   * Response headers readable by the client.
+   */
+  exposeHeaders?: string[];
+  /**
+   * Time browsers may cache a preflight, in seconds.
+   */
+  maxAge?: number;
+  /**
+   * Answer Private Network Access preflights, letting public
+   * sites reach this server on a private network.
+   */
+  privateNetworkAccess?: boolean;
+}
+
+/**
+ * Key of the CORS headers of a response on the context, the
+ * error handler sets them again so browsers can read errors.
+ */
+export const CORS: unique symbol = Symbol("context#cors");
+
+const DEFAULT_METHODS = ["GET", "HEAD", "PUT", "POST", "DELETE", "PATCH"];
+
+/**
+ * Cross-Origin Resource Sharing middleware. Preflights are
+ * answered with a `204`, other requests get their headers
+ * even when they end with an error, timeouts included.
+ *
+ *    app.use(cors({
+ *      origin: ['https://example.com', /\.example\.com$/],
+ *      credentials: true,
+ *      exposeHeaders: ['X-Request-Id'],
+ *    }));
+ */
+export function cors(opts: CorsOptions = {}) {
+  const origin = opts.origin === undefined ? "*" : opts.origin;
+  if (opts.credentials && origin === "*") {
+    // any site could read responses with the user's cookies
+    throw new TypeError(
+      'cors: `credentials` requires an `origin` other than "*"'
+    );
+  }
+  const allowMethods = (opts.allowMethods || DEFAULT_METHODS).join(",");
+
+  return async (ctx: Context, next: () => Promise<any>) => {
+    // the response depends on the origin, allowed or not
+    ctx.vary("Origin");
+    ctx[CORS] = {};
+    const requestOrigin = ctx.get("Origin");
+    if (!requestOrigin) {
+      return next();
+    }
+    const allowed = await allowOrigin(origin, requestOrigin, ctx);
+    if (!allowed) {
+      return next();
+    }
+
+    const headers: Record<string, string> = {
+      "Access-Control-Allow-Origin": allowed,
+    };
+    if (opts.credentials) {
+      headers["Access-Control-Allow-Credentials"] = "true";
+    }
+
+    const preflight =
+      ctx.method === "OPTIONS" && ctx.get("Access-Control-Request-Method");
+    if (!preflight) {
+      if (opts.exposeHeaders && opts.exposeHeaders.length) {
+        headers["Access-Control-Expose-Headers"] = opts.exposeHeaders.join(",");
+      }
+      ctx.set(headers);
+      ctx[CORS] = headers;
+      return next();
+    }
+
+    if (opts.maxAge !== undefined) {
+      headers["Access-Control-Max-Age"] = String(opts.maxAge);
+    }
+    headers["Access-Control-Allow-Methods"] = allowMethods;
+    if (opts.allowHeaders) {
+      headers["Access-Control-Allow-Headers"] = opts.allowHeaders.join(",");
+    } else {
+      const requested = ctx.get("Access-Control-Request-Headers");
+      if (requested) {
+        headers["Access-Control-Allow-Headers"] = requested;
+        ctx.vary("Access-Control-Request-Headers");
+      }
+    }
+    if (
+      opts.privateNetworkAccess &&
+      ctx.get("Access-Control-Request-Private-Network") === "true"
+    ) {
+      headers["Access-Control-Allow-Private-Network"] = "true";
+    }
+    ctx.set(headers);
+    ctx.status = 204;
+  };
+}
+
+/**
+ * Value of `Access-Control-Allow-Origin` for `requestOrigin`,
+ * `undefined` when it isn't allowed.
+ */
+async function allowOrigin(
+  origin: CorsOrigin,
+  requestOrigin: string,
+  ctx: Context
+): Promise<string | undefined> {
+  if (origin === "*") {
+    return "*";
+  }
+  if (typeof origin === "function") {
+    const result = await origin(requestOrigin, ctx);
+    if (typeof result === "string") {
+      return result || undefined;
+    }
+    return result ? requestOrigin : undefined;
+  }
+  const list = Array.isArray(origin) ? origin : [origin];
+  const match = list.some((item) =>
+    typeof item === "string" ? item === requestOrigin : item.test(requestOrigin)
+  );
+  return match ? requestOrigin : undefined;
+}
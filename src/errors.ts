@@ -0,0 +1,158 @@
+import statuses from "statuses";
+
+export interface HttpErrorProps {
+  /**
+   * Whether the message is safe to send to the client,
+   * defaults to `true` for 4xx and `false` for 5xx.
+   */
+  expose?: boolean;
+  /**
+   * Headers to set on the error response.
+   */
+  headers?: Record<string, string | string[]>;
+  [key: string]: any;
+}
+
+export class HttpError extends Error {
+  public status: number;
+  public expose: boolean;
+  public headers?: Record<string, string | string[]>;
+  [key: string]: any;
+  constructor(
+    status: number = 500,
+    message?: string,
+    props: HttpErrorProps = {}
+  ) {
+    if (!Number.isInteger(status) || status < 400 || status >= 600) {
+      status = 500;
+    }
+    super(message || statuses.message[status] || `Error ${status}`);
+    // restore the prototype chain, es5 targets lose it when extending Error
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target === HttpError ? "HttpError" : new.target.name;
+    this.status = status;
+    this.expose = status < 500;
+    Object.assign(this, props);
+  }
+  /**
+   * Alias of `status`, for compatibility with node-style errors.
+   */
+  public get statusCode() {
+    return this.status;
+  }
+  public set statusCode(code: number) {
+    this.status = code;
+  }
+}
+
+export type HttpErrorClass = new (
+  message?: string,
+  props?: HttpErrorProps
+) => HttpError;
+
+/**
+ * Error classes for every 4xx and 5xx status of the `statuses` table,
+ * keyed by code and by name:
+ *
+ *    new HttpErrors[404]();
+ *    new HttpErrors.NotFound("no such user");
+ */
+export const HttpErrors: { [codeOrName: string]: HttpErrorClass } = {};
+
+statuses.codes
+  .filter((code) => code >= 400)
+  .forEach((code) => {
+    const name = toIdentifier(statuses.message[code] as string);
+    const className = name.endsWith("Error") ? name : `${name}Error`;
+    const ErrorClass = class extends HttpError {
+      constructor(message?: string, props?: HttpErrorProps) {
+        super(code, message, props);
+      }
+    };
+    Object.defineProperty(ErrorClass, "name", { value: className });
+    HttpErrors[code] = HttpErrors[name] = ErrorClass;
+  });
+
+/**
+ * Create an `HttpError` from any combination of a status code,
+ * a message or an existing error, and extra properties.
+ *
+ *    createHttpError(404);
+ *    createHttpError(400, "name required");
+ *    createHttpError(401, "access denied", { user });
+ *    createHttpError(err, { status: 502 });
+ */
+export function createHttpError(
+  ...args: (number | string | Error | HttpErrorProps | undefined)[]
+): HttpError {
+  let err: Error | undefined;
+  let msg: string | undefined;
+  let status = 500;
+  let props: HttpErrorProps = {};
+  for (const arg of args) {
+    if (arg instanceof Error) {
+      err = arg;
+      status = (err as any).status || (err as any).statusCode || status;
+    } else if (typeof arg === "number") {
+      status = arg;
+    } else if (typeof arg === "string") {
+      msg = arg;
+    } else if (arg) {
+      props = arg;
+    }
+  }
+  if (props.status) {
+    status = props.status;
+  }
+
+  if (!err) {
+    const ErrorClass = HttpErrors[status];
+    return ErrorClass
+      ? new ErrorClass(msg, props)
+      : new HttpError(status, msg, props);
+  }
+
+  // decorate the existing error so its stack is kept
+  if (!Number.isInteger(status) || status < 400 || status >= 600) {
+    status = 500;
+  }
+  const httpErr = err as HttpError;
+  if (!(httpErr instanceof HttpError) || httpErr.status !== status) {
+    httpErr.expose = status < 500;
+    httpErr.status = status;
+  }
+  if (msg) {
+    httpErr.message = msg;
+  }
+  return Object.assign(httpErr, props);
+}
+
+/**
+ * Check if `err` is an `HttpError` or an error
+ * decorated by `createHttpError()`.
+ */
+export function isHttpError(err: any): err is HttpError {
+  if (!err || typeof err !== "object") {
+    return false;
+  }
+  if (err instanceof HttpError) {
+    return true;
+  }
+  return (
+    err instanceof Error &&
+    typeof (err as any).expose === "boolean" &&
+    typeof (err as any).status === "number"
+  );
+}
+
+/**
+ * Convert a status message to a class name,
+ * "Payload Too Large" -> "PayloadTooLarge".
+ */
+function toIdentifier(str: string) {
+  return str
+    .split(" ")
+    .map((token) => token.slice(0, 1).toUpperCase() + token.slice(1))
+    .join("")
+    .replace(/[^ _0-9a-z]/gi, "");
+}
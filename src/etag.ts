@@ -0,0 +1,120 @@
+import crypto from "crypto";
+import fs from "fs";
+import { Stream } from "stream";
+import type { Context } from "./context";
+
+export interface Validators {
+  etag?: string;
+  lastModified?: Date;
+}
+
+/**
+ * Create an entity tag for a string, a Buffer or `fs.Stats`.
+ * Tags of bodies are strong unless `weak` is set, tags of
+ * stats are always weak as they only reflect size and mtime.
+ *
+ *    etag('hello world');
+ *    // => '"b-Kq5sNclPz7QV2+lfQIuc6R7oRu0"'
+ *    etag(await fs.promises.stat(file));
+ *    // => 'W/"b-18d2c0dc6e8"'
+ */
+export function etag(
+  entity: string | Buffer | fs.Stats,
+  opts: { weak?: boolean } = {}
+): string {
+  if (entity instanceof fs.Stats) {
+    const mtime = entity.mtime.getTime().toString(16);
+    const size = entity.size.toString(16);
+    return `W/"${size}-${mtime}"`;
+  }
+  const tag = entityTag(entity);
+  return opts.weak ? `W/${tag}` : tag;
+}
+
+/**
+ * Set the ETag of a 2xx response from its body when none is set.
+ * Stream bodies get a weak tag when they come from a file.
+ */
+export async function setETag(ctx: Context, weak: boolean = false) {
+  const { body, status } = ctx;
+  if (ctx.response.has("ETag") || !body) {
+    return;
+  }
+  if (((status / 100) | 0) !== 2) {
+    return;
+  }
+
+  if (body instanceof Stream) {
+    const path = (body as fs.ReadStream).path;
+    if (!path) {
+      return;
+    }
+    const stats = await fs.promises.stat(path);
+    ctx.response.etag = etag(stats);
+    return;
+  }
+
+  const entity =
+    typeof body === "string" || Buffer.isBuffer(body)
+      ? body
+      : JSON.stringify(body);
+  ctx.response.etag = etag(entity, { weak });
+}
+
+/**
+ * Evaluate `If-Match` and `If-Unmodified-Since` against the
+ * current validators of the resource, RFC 7232 section 6.
+ * Returns `true` when the request must fail with `412`.
+ */
+export function preconditionFailed(
+  ctx: Context,
+  validators: Validators
+): boolean {
+  const ifMatch = ctx.request.get("If-Match");
+  if (ifMatch) {
+    if (ifMatch.trim() === "*") {
+      return !validators.etag && !validators.lastModified;
+    }
+    const current = validators.etag;
+    // strong comparison, weak tags never match
+    if (!current || current.startsWith("W/")) {
+      return true;
+    }
+    return !parseTokenList(ifMatch).some((tag) => tag === current);
+  }
+
+  const ifUnmodifiedSince = ctx.request.get("If-Unmodified-Since");
+  if (ifUnmodifiedSince && validators.lastModified) {
+    const since = Date.parse(ifUnmodifiedSince);
+    if (!isNaN(since)) {
+      // http dates have a one second precision
+      const modified = Math.floor(validators.lastModified.getTime() / 1000);
+      return modified > Math.floor(since / 1000);
+    }
+  }
+  return false;
+}
+
+function entityTag(entity: string | Buffer) {
+  if (entity.length === 0) {
+    // fast-path empty
+    return '"0-2jmj7l5rSw0yVb/vlWAYkK/YBwk"';
+  }
+  const hash = crypto
+    .createHash("sha1")
+    .update(entity)
+    .digest("base64")
+    .substring(0, 27);
+  const len =
+    typeof entity === "string"
+      ? Buffer.byteLength(entity, "utf8")
+      : entity.length;
+  return `"${len.toString(16)}-${hash}"`;
+}
+
+function parseTokenList(str: string) {
+  return str
+    .split(",")
+    .map((token) => token.trim())
+    .filter(Boolean);
+}
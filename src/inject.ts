@@ -0,0 +1,239 @@
+import { IncomingMessage, ServerResponse } from "http";
+import { Duplex, Readable, Stream } from "stream";
+
+export interface InjectOptions {
+  /**
+   * Defaults to `GET`.
+   */
+  method?: string;
+  /**
+   * Path and query, defaults to `/`.
+   */
+  url?: string;
+  headers?: Record<string, string | string[] | number>;
+  /**
+   * Request body, sent as JSON unless a string, a Buffer or a
+   * stream. Streams are sent chunked as they are read.
+   */
+  body?: string | Buffer | Readable | object;
+  /**
+   * Address of the client, defaults to `127.0.0.1`.
+   */
+  remoteAddress?: string;
+  /**
+   * Pretend the connection uses TLS, `ctx.protocol` is `https`.
+   */
+  encrypted?: boolean;
+}
+
+export interface InjectResponse {
+  status: number;
+  statusMessage: string;
+  headers: Record<string, string | string[]>;
+  trailers: Record<string, string | string[]>;
+  /**
+   * Body as sent, without the chunked transfer encoding.
+   */
+  body: Buffer;
+  /**
+   * Body decoded as UTF-8.
+   */
+  text: string;
+  /**
+   * Body parsed as JSON.
+   */
+  json<T = any>(): T;
+}
+
+/**
+ * Socket standing in for the connection, keeping what the
+ * response writes to it.
+ */
+class InjectSocket extends Duplex {
+  public remoteAddress: string;
+  public remotePort = 0;
+  public encrypted?: boolean;
+  public output: Buffer[] = [];
+  constructor(remoteAddress: string, encrypted?: boolean) {
+    super();
+    this.remoteAddress = remoteAddress;
+    if (encrypted) {
+      this.encrypted = true;
+    }
+  }
+  public _read() {
+    // the request body is pushed to the request itself
+  }
+  public _write(
+    chunk: Buffer,
+    encoding: BufferEncoding,
+    callback: (err?: Error | null) => void
+  ) {
+    this.output.push(
+      Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk, encoding)
+    );
+    callback();
+  }
+  public setNoDelay() {
+    return this;
+  }
+  public setKeepAlive() {
+    return this;
+  }
+  public setTimeout() {
+    return this;
+  }
+}
+
+/**
+ * Run a request through `handler`, an `app.callback()`, with
+ * a fake connection and parse what it writes back like an
+ * HTTP/1.1 client would.
+ */
+export function inject(
+  handler: (req: IncomingMessage, res: ServerResponse) => any,
+  opts: InjectOptions = {}
+): Promise<InjectResponse> {
+  const socket = new InjectSocket(
+    opts.remoteAddress || "127.0.0.1",
+    opts.encrypted
+  );
+  const req = new IncomingMessage(socket as any);
+  req.method = (opts.method || "GET").toUpperCase();
+  req.url = opts.url || "/";
+  req.httpVersion = "1.1";
+  req.httpVersionMajor = 1;
+  req.httpVersionMinor = 1;
+
+  const headers: Record<string, string | string[]> = { host: "localhost" };
+  for (const name of Object.keys(opts.headers || {})) {
+    const value = opts.headers![name];
+    headers[name.toLowerCase()] = Array.isArray(value) ? value : String(value);
+  }
+
+  let body = opts.body;
+  if (body !== undefined && !(body instanceof Stream)) {
+    if (typeof body !== "string" && !Buffer.isBuffer(body)) {
+      body = JSON.stringify(body);
+      headers["content-type"] = headers["content-type"] || "application/json";
+    }
+    if (!headers["transfer-encoding"]) {
+      headers["content-length"] = String(Buffer.byteLength(body as string));
+    }
+  } else if (body && !headers["content-length"]) {
+    headers["transfer-encoding"] = "chunked";
+  }
+  req.headers = headers;
+  req.rawHeaders = [];
+  for (const name of Object.keys(headers)) {
+    const values = ([] as string[]).concat(headers[name]);
+    values.forEach((value) => req.rawHeaders.push(name, value));
+  }
+
+  const res = new ServerResponse(req);
+  res.assignSocket(socket as any);
+
+  return new Promise((resolve, reject) => {
+    res.once("finish", () => {
+      try {
+        resolve(parseResponse(Buffer.concat(socket.output)));
+      } catch (err) {
+        reject(err);
+      }
+      socket.destroy();
+    });
+    handler(req, res);
+
+    const end = () => {
+      req.complete = true;
+      req.push(null);
+    };
+    if (body instanceof Stream) {
+      const stream = body as Readable;
+      stream.on("data", (chunk) => req.push(chunk));
+      stream.on("end", end);
+      stream.on("error", (err) => req.destroy(err));
+    } else {
+      if (body !== undefined) {
+        req.push(body);
+      }
+      end();
+    }
+  });
+}
+
+/**
+ * Parse a raw HTTP/1.1 response, skipping informational ones.
+ */
+function parseResponse(raw: Buffer): InjectResponse {
+  let data = raw;
+  let lines: string[];
+  let status: number;
+  do {
+    const end = data.indexOf("\r\n\r\n");
+    if (end === -1) {
+      throw new Error("incomplete response head");
+    }
+    lines = data.toString("latin1", 0, end).split("\r\n");
+    status = parseInt(lines[0].split(" ")[1], 10);
+    data = data.subarray(end + 4);
+  } while (status >= 100 && status < 200 && status !== 101);
+
+  const statusMessage = lines[0].split(" ").slice(2).join(" ");
+  const headers = parseFields(lines.slice(1));
+  let body = data;
+  let trailers: Record<string, string | string[]> = {};
+  if (headers["transfer-encoding"] === "chunked" && data.length) {
+    ({ body, trailers } = decodeChunked(data));
+  }
+  return {
+    status,
+    statusMessage,
+    headers,
+    trailers,
+    body,
+    text: body.toString("utf8"),
+    json: () => JSON.parse(body.toString("utf8")),
+  };
+}
+
+function decodeChunked(data: Buffer) {
+  const chunks: Buffer[] = [];
+  let i = 0;
+  for (;;) {
+    const lineEnd = data.indexOf("\r\n", i);
+    if (lineEnd === -1) {
+      break;
+    }
+    // parseInt stops at chunk extensions
+    const size = parseInt(data.toString("latin1", i, lineEnd), 16);
+    i = lineEnd + 2;
+    if (!size) {
+      break;
+    }
+    chunks.push(data.subarray(i, i + size));
+    i += size + 2;
+  }
+  // trailer fields follow the last chunk
+  const trailers = parseFields(data.toString("latin1", i).split("\r\n"));
+  return { body: Buffer.concat(chunks), trailers };
+}
+
+function parseFields(lines: string[]) {
+  const fields: Record<string, string | string[]> = {};
+  for (const line of lines) {
+    const index = line.indexOf(":");
+    if (index <= 0) {
+      continue;
+    }
+    const name = line.slice(0, index).trim().toLowerCase();
+    const value = line.slice(index + 1).trim();
+    const prev = fields[name];
+    if (name === "set-cookie") {
+      fields[name] = ((prev as string[]) || []).concat(value);
+    } else {
+      fields[name] = prev === undefined ? value : `${prev}, ${value}`;
+    }
+  }
+  return fields;
+}
@@ -0,0 +1,246 @@
+import fs from "fs";
+import { randomUUID } from "crypto";
+import { bytes } from "./common";
+import type { Context } from "./context";
+
+export interface RequestIdOptions {
+  /**
+   * Header the ID is read from and echoed in,
+   * defaults to `X-Request-Id`.
+   */
+  header?: string;
+  /**
+   * Generate an ID for requests without one, defaults to a UUID.
+   */
+  generate?: () => string;
+}
+
+export interface AccessLogEntry {
+  time: string;
+  id: string;
+  method: string;
+  url: string;
+  httpVersion: string;
+  status: number;
+  length?: number;
+  /**
+   * Time from the request to the end of the response, in milliseconds.
+   */
+  duration: number;
+  ip: string;
+  userAgent?: string;
+  referrer?: string;
+}
+
+export type AccessLogFormat =
+  | "json"
+  | "common"
+  | "combined"
+  | ((entry: AccessLogEntry) => string);
+
+/**
+ * Receives every formatted line, without the line break.
+ */
+export type AccessLogSink = (line: string, entry: AccessLogEntry) => void;
+
+export interface AccessLogOptions {
+  /**
+   * JSON lines, Common or Combined Log Format or a custom
+   * formatter, defaults to `"json"`.
+   */
+  format?: AccessLogFormat;
+  /**
+   * Where lines are written, defaults to stdout.
+   */
+  sink?: AccessLogSink;
+}
+
+export interface FileSinkOptions {
+  /**
+   * Size at which the file is rotated, in bytes or as a string
+   * like `"10mb"`, defaults to `"10mb"`.
+   */
+  maxSize?: number | string;
+  /**
+   * Rotated files to keep as `access.log.1`, `access.log.2`...,
+   * defaults to `5`.
+   */
+  maxFiles?: number;
+  /**
+   * Called when the file can't be written or rotated, the line
+   * is then lost. Defaults to logging to stderr.
+   */
+  onError?: (err: Error) => void;
+}
+
+// ids from clients end up in logs, keep them to a safe charset
+const REQUEST_ID_REGEXP = /^[\w\-.:@/+=]{1,200}$/;
+
+const MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+/**
+ * Write lines to stdout.
+ */
+export const stdoutSink: AccessLogSink = (line) => {
+  process.stdout.write(`${line}\n`);
+};
+
+/**
+ * Append lines to the file at `path`, rotating it once it
+ * reaches `maxSize`.
+ *
+ *    new Application({
+ *      accessLog: { format: 'combined', sink: fileSink('logs/access.log') },
+ *    });
+ */
+export function fileSink(
+  path: string,
+  opts: FileSinkOptions = {}
+): AccessLogSink {
+  const maxSize = bytes(opts.maxSize === undefined ? "10mb" : opts.maxSize);
+  const maxFiles = opts.maxFiles === undefined ? 5 : opts.maxFiles;
+  const onError =
+    opts.onError ||
+    ((err: Error) => {
+      console.error(`\n  access log ${path}: ${err.message}\n`);
+    });
+  let size = fs.existsSync(path) ? fs.statSync(path).size : 0;
+
+  const open = () => {
+    const file = fs.createWriteStream(path, { flags: "a" });
+    // a server must not go down with its log
+    file.on("error", onError);
+    return file;
+  };
+  let stream = open();
+
+  const rotate = () => {
+    // pending writes still land in the renamed file
+    stream.end();
+    try {
+      for (let i = maxFiles - 1; i > 0; i--) {
+        if (fs.existsSync(`${path}.${i}`)) {
+          fs.renameSync(`${path}.${i}`, `${path}.${i + 1}`);
+        }
+      }
+      if (maxFiles > 0) {
+        fs.renameSync(path, `${path}.1`);
+      } else {
+        fs.unlinkSync(path);
+      }
+    } catch (err) {
+      onError(err as Error);
+    }
+    stream = open();
+    size = 0;
+  };
+
+  return (line) => {
+    const chunk = `${line}\n`;
+    const length = Buffer.byteLength(chunk);
+    if (size > 0 && size + length > maxSize) {
+      rotate();
+    } else if (stream.destroyed) {
+      // try again after a failure
+      stream = open();
+    }
+    size += length;
+    stream.write(chunk);
+  };
+}
+
+/**
+ * ID of the request, from the configured header when the
+ * client sent a valid one, generated otherwise.
+ */
+export function requestId(ctx: Context, opts: RequestIdOptions = {}) {
+  const header = ctx.get(opts.header || "X-Request-Id");
+  if (REQUEST_ID_REGEXP.test(header)) {
+    return header;
+  }
+  return opts.generate ? opts.generate() : randomUUID();
+}
+
+/**
+ * Collect the access log fields of `ctx`, once its response
+ * is done.
+ */
+export function accessLogEntry(ctx: Context, start: bigint): AccessLogEntry {
+  const duration = Number(process.hrtime.bigint() - start) / 1e6;
+  return {
+    time: new Date().toISOString(),
+    id: ctx.id,
+    method: ctx.method || "",
+    url: ctx.originalUrl,
+    httpVersion: ctx.req.httpVersion,
+    status: ctx.res.statusCode,
+    length: ctx.response.length,
+    duration: Math.round(duration * 1000) / 1000,
+    ip: ctx.request.ip,
+    userAgent: ctx.get("User-Agent") || undefined,
+    referrer: ctx.get("Referrer") || undefined,
+  };
+}
+
+/**
+ * Format `entry` as a line of `format`.
+ */
+export function formatAccessLog(
+  entry: AccessLogEntry,
+  format: AccessLogFormat = "json"
+): string {
+  if (typeof format === "function") {
+    return format(entry);
+  }
+  switch (format) {
+    case "common":
+      return formatCommon(entry);
+    case "combined":
+      return `${formatCommon(entry)} ${quote(entry.referrer)} ${quote(
+        entry.userAgent
+      )}`;
+    default:
+      return JSON.stringify(entry);
+  }
+}
+
+/**
+ * `127.0.0.1 - - [10/Oct/2000:13:55:36 +0000] "GET / HTTP/1.1" 200 2326`
+ */
+function formatCommon(entry: AccessLogEntry) {
+  const request = `${entry.method} ${entry.url} HTTP/${entry.httpVersion}`;
+  const length = entry.length === undefined ? "-" : entry.length;
+  return `${entry.ip || "-"} - - [${clfDate(new Date(entry.time))}] ${quote(
+    request
+  )} ${entry.status} ${length}`;
+}
+
+function clfDate(date: Date) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const day = pad(date.getUTCDate());
+  const month = MONTHS[date.getUTCMonth()];
+  const time = [date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds()]
+    .map(pad)
+    .join(":");
+  return `${day}/${month}/${date.getUTCFullYear()}:${time} +0000`;
+}
+
+function quote(value: string | undefined) {
+  if (!value) {
+    return '"-"';
+  }
+  return `"${value.replace(/[\\"]/g, "\\$&").replace(/[\r\n]/g, " ")}"`;
+}
@@ -0,0 +1,279 @@
+import net from "net";
+import type { IncomingRequest } from "./request";
+
+/**
+ * Which proxies to trust:
+ *
+ * - `true` / `false` to trust every hop or none
+ * - a hop count, trusting that many proxies in front of the app
+ * - CIDR ranges or addresses, as an array or a comma separated
+ *   string, with the `loopback`, `linklocal` and `uniquelocal` aliases
+ * - a predicate called with the address and its hop index
+ */
+export type TrustProxy =
+  | boolean
+  | number
+  | string
+  | string[]
+  | ((addr: string, hop: number) => boolean);
+
+export type TrustFunction = (addr: string, hop: number) => boolean;
+
+export interface Forwarded {
+  /**
+   * Forwarded client addresses, the client first.
+   */
+  ips: string[];
+  /**
+   * Protocol and host the client used, as told by the
+   * outermost trusted proxy.
+   */
+  proto?: string;
+  host?: string;
+}
+
+interface Hop {
+  for: string;
+  proto?: string;
+  host?: string;
+}
+
+const ALIASES: Record<string, string[]> = {
+  loopback: ["127.0.0.1/8", "::1/128"],
+  linklocal: ["169.254.0.0/16", "fe80::/10"],
+  uniquelocal: ["10.0.0.0/8", "172.16.0.0/12", "192.168.0.0/16", "fc00::/7"],
+};
+
+// a `key=value` or `key="quoted value"` pair of a forwarded element
+const PAIR_REGEXP =
+  /^\s*([^=;,\s]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;,\s]*))\s*/;
+
+// IPv4 addresses are matched as IPv4-mapped IPv6 ones
+const V4_PREFIX = [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0xff, 0xff];
+
+/**
+ * Compile a `TrustProxy` setting into a predicate.
+ *
+ *    const trust = compileTrust("loopback, 10.0.0.0/8");
+ *    trust("10.1.2.3", 0);
+ *    // => true
+ */
+export function compileTrust(value: TrustProxy): TrustFunction {
+  if (typeof value === "function") {
+    return value;
+  }
+  if (value === true) {
+    return () => true;
+  }
+  if (typeof value === "number") {
+    return (_addr, hop) => hop < value;
+  }
+  if (!value) {
+    return () => false;
+  }
+
+  const list = typeof value === "string" ? value.split(",") : value;
+  const ranges: { bytes: number[]; prefix: number }[] = [];
+  for (const entry of list) {
+    const name = entry.trim();
+    for (const cidr of ALIASES[name] || [name]) {
+      ranges.push(parseCidr(cidr));
+    }
+  }
+  return (addr) => {
+    const bytes = parseIp(addr);
+    return !!bytes && ranges.some((range) => inRange(bytes, range));
+  };
+}
+
+/**
+ * Walk the forwarding chain of `req` from the socket address,
+ * as long as `trust` accepts the hops. Hops are read from the
+ * `Forwarded` header when it is `ipHeader`, from `ipHeader` and
+ * `X-Forwarded-Proto` / `X-Forwarded-Host` otherwise.
+ */
+export function forwarded(
+  req: IncomingRequest,
+  trust: TrustFunction,
+  ipHeader: string = "X-Forwarded-For"
+): Forwarded {
+  // hops from the closest to the furthest proxy
+  const hops = parseHops(req, ipHeader).reverse();
+  const chain = [req.socket.remoteAddress || ""];
+  let trusted = 0;
+  while (trusted < hops.length && trust(chain[trusted], trusted)) {
+    chain.push(hops[trusted].for);
+    trusted++;
+  }
+
+  const ips = chain.slice(1).reverse();
+  const result: Forwarded = { ips };
+  // the outermost trusted proxy which knows about them
+  for (let i = trusted - 1; i >= 0; i--) {
+    if (!result.proto && hops[i].proto) result.proto = hops[i].proto;
+    if (!result.host && hops[i].host) result.host = hops[i].host;
+  }
+  // a proxy may only tell the protocol or host
+  const legacy = ipHeader.toLowerCase() !== "forwarded";
+  if (legacy && !hops.length && trust(chain[0], 0)) {
+    result.proto = splitHeader(req.headers["x-forwarded-proto"])[0];
+    result.host = splitHeader(req.headers["x-forwarded-host"])[0];
+  }
+  return result;
+}
+
+/**
+ * Parse an RFC 7239 `Forwarded` header into its elements.
+ *
+ *    parseForwarded('for="[2001:db8::17]:4711";proto=https, for=10.0.0.1');
+ *    // => [{ for: '[2001:db8::17]:4711', proto: 'https' }, { for: '10.0.0.1' }]
+ */
+export function parseForwarded(header: string): Record<string, string>[] {
+  const elements: Record<string, string>[] = [];
+  let element: Record<string, string> = {};
+  let i = 0;
+  while (i < header.length) {
+    const match = PAIR_REGEXP.exec(header.slice(i));
+    if (match) {
+      const value =
+        match[2] !== undefined ? match[2].replace(/\\(.)/g, "$1") : match[3];
+      element[match[1].toLowerCase()] = value;
+      i += match[0].length;
+    } else {
+      // skip what can't be parsed up to the next delimiter
+      const next = header.slice(i).search(/[;,]/);
+      i = next === -1 ? header.length : i + next;
+    }
+    if (header[i] === ",") {
+      elements.push(element);
+      element = {};
+    }
+    i++;
+  }
+  elements.push(element);
+  return elements.filter((item) => Object.keys(item).length);
+}
+
+/**
+ * Hops of the forwarding headers, the client first. The `Forwarded`
+ * header is only read when it is the configured `ipHeader`, clients
+ * could send it through proxies which don't set it.
+ */
+function parseHops(req: IncomingRequest, ipHeader: string): Hop[] {
+  if (ipHeader.toLowerCase() === "forwarded") {
+    return parseForwarded(String(req.headers.forwarded || "")).map(
+      (element) => ({
+        for: stripPort(element.for || ""),
+        proto: element.proto && element.proto.toLowerCase(),
+        host: element.host,
+      })
+    );
+  }
+
+  const ips = splitHeader(req.headers[ipHeader.toLowerCase()]);
+  const hops: Hop[] = ips.map((ip) => ({ for: ip }));
+  // each proxy appends its value, align them from the closest
+  const protos = splitHeader(req.headers["x-forwarded-proto"]);
+  const hosts = splitHeader(req.headers["x-forwarded-host"]);
+  for (let i = 1; i <= hops.length; i++) {
+    const hop = hops[hops.length - i];
+    hop.proto = protos[protos.length - i];
+    hop.host = hosts[hosts.length - i];
+  }
+  return hops;
+}
+
+function splitHeader(value: string | string[] | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+  return String(value)
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Strip the port and IPv6 brackets of a `for=` node,
+ * `"[2001:db8::17]:4711"` -> `"2001:db8::17"`.
+ */
+function stripPort(node: string) {
+  if (node[0] === "[") {
+    const end = node.indexOf("]");
+    return end === -1 ? node : node.slice(1, end);
+  }
+  const index = node.indexOf(":");
+  // a single colon separates an IPv4 address from its port
+  if (index !== -1 && node.indexOf(":", index + 1) === -1) {
+    return node.slice(0, index);
+  }
+  return node;
+}
+
+function parseCidr(cidr: string) {
+  const [addr, bits] = cidr.split("/");
+  const bytes = parseIp(addr);
+  if (!bytes) {
+    throw new TypeError(`invalid IP address: ${addr}`);
+  }
+  const v4 = net.isIPv4(addr);
+  const max = v4 ? 32 : 128;
+  let prefix = max;
+  if (bits !== undefined) {
+    prefix = /^\d+$/.test(bits) ? parseInt(bits, 10) : NaN;
+    if (!(prefix <= max)) {
+      throw new TypeError(`invalid range on address: ${cidr}`);
+    }
+  }
+  return { bytes, prefix: v4 ? prefix + 96 : prefix };
+}
+
+function inRange(bytes: number[], range: { bytes: number[]; prefix: number }) {
+  let bits = range.prefix;
+  for (let i = 0; bits > 0; i++, bits -= 8) {
+    const mask = bits >= 8 ? 0xff : (0xff << (8 - bits)) & 0xff;
+    if ((bytes[i] & mask) !== (range.bytes[i] & mask)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Parse an IPv4 or IPv6 address into 16 bytes.
+ */
+export function parseIp(addr: string): number[] | undefined {
+  // drop the zone of scoped addresses
+  const ip = addr.trim().split("%")[0];
+  if (net.isIPv4(ip)) {
+    return V4_PREFIX.concat(ip.split(".").map(Number));
+  }
+  if (!net.isIPv6(ip)) {
+    return;
+  }
+
+  let v4: number[] = [];
+  let rest = ip;
+  const dotted = /(\d+\.\d+\.\d+\.\d+)$/.exec(ip);
+  if (dotted) {
+    v4 = dotted[1].split(".").map(Number);
+    rest = `${ip.slice(0, -dotted[1].length)}0:0`;
+  }
+  const [head, tail] = rest.split("::");
+  let groups = head ? head.split(":") : [];
+  if (tail !== undefined) {
+    const end = tail ? tail.split(":") : [];
+    const fill: string[] = new Array(8 - groups.length - end.length).fill("0");
+    groups = groups.concat(fill, end);
+  }
+
+  const bytes: number[] = [];
+  for (const group of groups) {
+    const n = parseInt(group, 16);
+    bytes.push(n >> 8, n & 0xff);
+  }
+  if (dotted) {
+    bytes.splice(12, 4, ...v4);
+  }
+  return bytes;
+}
@@ -0,0 +1,426 @@
+import LRU from "ylru";
+import type { Context } from "./context";
+import { createHttpError } from "./errors";
+import { compileTrust, parseIp } from "./proxy";
+
+/**
+ * Context the limiter and its callbacks get, route contexts included.
+ */
+export type RateLimitContext = Omit<Context, "params">;
+
+export type RateLimitAlgorithm = "token-bucket" | "sliding-window";
+
+/**
+ * Key of the `RateLimit-*` headers of a response on the context,
+ * the error handler sets them again on error responses.
+ */
+export const RATE_LIMIT: unique symbol = Symbol("context#rateLimit");
+
+export interface RateLimitRule {
+  algorithm: RateLimitAlgorithm;
+  /**
+   * Requests allowed per window, the bucket size of a token bucket.
+   */
+  limit: number;
+  /**
+   * In milliseconds, the time a token bucket takes to refill.
+   */
+  window: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /**
+   * Milliseconds until the limit is fully available again.
+   */
+  reset: number;
+  /**
+   * Milliseconds until the request would be allowed, when it isn't.
+   */
+  retryAfter?: number;
+}
+
+/**
+ * Shared state of the limiters. Backends shared between
+ * processes have to apply `rule` atomically.
+ */
+export interface RateLimitStore {
+  consume(
+    key: string,
+    rule: RateLimitRule,
+    cost: number
+  ): RateLimitResult | Promise<RateLimitResult>;
+  reset(key: string): any;
+}
+
+export interface RateLimitRoute {
+  /**
+   * Path, with a trailing `*` to match a prefix, or a regexp.
+   * Paths are matched the way the router does, see the
+   * `sensitive` and `strict` options, regexps as they are.
+   */
+  path: string | RegExp;
+  method?: string | string[];
+  /**
+   * Limit of the route, `false` exempts it.
+   */
+  limit: number | false;
+  window?: number;
+  algorithm?: RateLimitAlgorithm;
+}
+
+export interface RateLimitOptions {
+  /**
+   * Requests allowed per window, defaults to `60`.
+   */
+  limit?: number;
+  /**
+   * In milliseconds, defaults to a minute.
+   */
+  window?: number;
+  /**
+   * Defaults to `"sliding-window"`.
+   */
+  algorithm?: RateLimitAlgorithm;
+  /**
+   * Client of a request, defaults to `ctx.ip`. Requests without
+   * a key aren't limited.
+   */
+  key?: (
+    ctx: RateLimitContext
+  ) => string | undefined | Promise<string | undefined>;
+  /**
+   * Prefix length IPv6 clients are grouped by, as a single
+   * client usually owns a whole `/64`. Defaults to `64`.
+   */
+  ipv6Subnet?: number;
+  /**
+   * Tokens a request takes, defaults to `1`.
+   */
+  cost?: number | ((ctx: RateLimitContext) => number);
+  /**
+   * Defaults to a `MemoryRateLimitStore` of this limiter.
+   */
+  store?: RateLimitStore;
+  /**
+   * Namespace of the keys in `store`, to share it between
+   * limiters. Defaults to `rl`.
+   */
+  prefix?: string;
+  /**
+   * Clients which aren't limited: addresses or CIDR ranges
+   * matched against `ctx.ip`, or a predicate.
+   */
+  allowList?:
+    | string
+    | string[]
+    | ((ctx: RateLimitContext) => boolean | Promise<boolean>);
+  /**
+   * Rules replacing the default one on matching requests,
+   * the first match wins.
+   */
+  routes?: RateLimitRoute[];
+  /**
+   * Case sensitive matching of `routes`, defaults to `false`
+   * like the router.
+   */
+  sensitive?: boolean;
+  /**
+   * Treat "/foo" and "/foo/" as different `routes`, defaults
+   * to `false` like the router.
+   */
+  strict?: boolean;
+  /**
+   * Send the `RateLimit-*` headers, defaults to `true`.
+   */
+  headers?: boolean;
+}
+
+interface Bucket {
+  tokens: number;
+  updated: number;
+}
+
+interface Window {
+  start: number;
+  count: number;
+  previous: number;
+}
+
+/**
+ * In-memory `RateLimitStore` for a single process, keeping
+ * the `max` most recently used clients.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private cache: LRU;
+  constructor(max: number = 100000) {
+    this.cache = new LRU(max);
+  }
+  public consume(
+    key: string,
+    rule: RateLimitRule,
+    cost: number
+  ): RateLimitResult {
+    const now = Date.now();
+    return rule.algorithm === "token-bucket"
+      ? this.tokenBucket(key, rule, cost, now)
+      : this.slidingWindow(key, rule, cost, now);
+  }
+  public reset(key: string) {
+    this.cache.set(key, undefined);
+  }
+  private tokenBucket(
+    key: string,
+    rule: RateLimitRule,
+    cost: number,
+    now: number
+  ): RateLimitResult {
+    const { limit, window } = rule;
+    const rate = limit / window;
+    const bucket: Bucket = this.cache.get(key) || {
+      tokens: limit,
+      updated: now,
+    };
+    const tokens = Math.min(
+      limit,
+      bucket.tokens + (now - bucket.updated) * rate
+    );
+    const allowed = tokens >= cost;
+    const left = allowed ? tokens - cost : tokens;
+    // an untouched bucket is full again after a window
+    this.cache.set(key, { tokens: left, updated: now }, { maxAge: window });
+    return {
+      allowed,
+      limit,
+      remaining: Math.floor(left),
+      reset: Math.ceil((limit - left) / rate),
+      retryAfter: allowed
+        ? undefined
+        : cost > limit
+        ? window
+        : Math.ceil((cost - tokens) / rate),
+    };
+  }
+  /**
+   * Fixed windows, the count of the previous one weighted by
+   * how much of it still overlaps the sliding window.
+   */
+  private slidingWindow(
+    key: string,
+    rule: RateLimitRule,
+    cost: number,
+    now: number
+  ): RateLimitResult {
+    const { limit, window } = rule;
+    const start = now - (now % window);
+    let state: Window | undefined = this.cache.get(key);
+    if (!state || state.start !== start) {
+      const previous =
+        state && state.start === start - window ? state.count : 0;
+      state = { start, count: 0, previous };
+    }
+    const elapsed = now - start;
+    const estimate = state.previous * (1 - elapsed / window) + state.count;
+    const allowed = estimate + cost <= limit;
+    if (allowed) {
+      state.count += cost;
+    }
+    this.cache.set(key, state, { maxAge: 2 * window });
+
+    const used = allowed ? estimate + cost : estimate;
+    let retryAfter: number | undefined;
+    if (!allowed) {
+      if (cost > limit) {
+        retryAfter = window;
+      } else if (state.count + cost <= limit) {
+        // wait for enough of the previous window to slide out
+        const share = (limit - state.count - cost) / state.previous;
+        retryAfter = Math.ceil(window * (1 - share) - elapsed);
+      } else {
+        // this window becomes the previous one
+        const share = (limit - cost) / state.count;
+        retryAfter = Math.ceil(window - elapsed + window * (1 - share));
+      }
+    }
+    return {
+      allowed,
+      limit,
+      remaining: Math.max(0, Math.floor(limit - used)),
+      reset: window - elapsed,
+      retryAfter,
+    };
+  }
+}
+
+/**
+ * Throttle clients, answering `429` through the error path with
+ * a `Retry-After` once they exceed their limit. Clients are keyed
+ * by `ctx.ip`, which only follows the forwarding headers of
+ * trusted proxies, so spoofed `X-Forwarded-For` values don't
+ * give clients fresh limits.
+ *
+ *    app.use(rateLimit({
+ *      limit: 100,
+ *      window: 60000,
+ *      allowList: ['loopback', '10.0.0.0/8'],
+ *      routes: [{ method: 'POST', path: '/login', limit: 5 }],
+ *    }));
+ *
+ *    router.post('/search', rateLimit({
+ *      prefix: 'search',
+ *      algorithm: 'token-bucket',
+ *      key: (ctx) => ctx.state.user && ctx.state.user.id,
+ *    }), search);
+ */
+export function rateLimit(opts: RateLimitOptions = {}) {
+  const rule: RateLimitRule = {
+    algorithm: opts.algorithm || "sliding-window",
+    limit: opts.limit === undefined ? 60 : opts.limit,
+    window: opts.window || 60000,
+  };
+  // match routes like the router does
+  const fold = (path: string) => (opts.sensitive ? path : path.toLowerCase());
+  const normalize = (path: string) => {
+    path = fold(path);
+    if (opts.strict || path.length <= 1) {
+      return path;
+    }
+    return path.endsWith("/") ? path.slice(0, -1) : path;
+  };
+  const routes = (opts.routes || []).map((route) => ({
+    ...route,
+    path:
+      typeof route.path !== "string" || route.path.endsWith("*")
+        ? route.path
+        : normalize(route.path),
+    prefix:
+      typeof route.path === "string" && route.path.endsWith("*")
+        ? fold(route.path.slice(0, -1))
+        : undefined,
+    methods: route.method
+      ? ([] as string[]).concat(route.method).map((m) => m.toUpperCase())
+      : undefined,
+    rule:
+      route.limit === false
+        ? undefined
+        : {
+            algorithm: route.algorithm || rule.algorithm,
+            limit: route.limit,
+            window: route.window || rule.window,
+          },
+  }));
+  const store = opts.store || new MemoryRateLimitStore();
+  const prefix = opts.prefix || "rl";
+  const ipv6Subnet = opts.ipv6Subnet === undefined ? 64 : opts.ipv6Subnet;
+  const allowList = opts.allowList;
+  const allowed =
+    typeof allowList === "function" || allowList === undefined
+      ? allowList
+      : compileTrust(allowList);
+
+  return async (ctx: RateLimitContext, next: () => Promise<any>) => {
+    let name = prefix;
+    let current: RateLimitRule | undefined = rule;
+    const path = ctx.path || "";
+    const index = routes.findIndex((route) =>
+      matchRoute(
+        route,
+        ctx.method || "",
+        path,
+        route.prefix !== undefined ? fold(path) : normalize(path)
+      )
+    );
+    if (index !== -1) {
+      // routes get their own counters
+      name = `${prefix}:${index}`;
+      current = routes[index].rule;
+    }
+    if (!current) {
+      return next();
+    }
+    if (typeof allowList === "function") {
+      if (await allowList(ctx)) {
+        return next();
+      }
+    } else if (allowed && allowed(ctx.ip, 0)) {
+      return next();
+    }
+    const key = opts.key ? await opts.key(ctx) : ipKey(ctx.ip, ipv6Subnet);
+    if (!key) {
+      return next();
+    }
+
+    const cost = typeof opts.cost === "function" ? opts.cost(ctx) : opts.cost;
+    const result = await store.consume(
+      `${name}:${key}`,
+      current,
+      cost === undefined ? 1 : cost
+    );
+    const headers: Record<string, string> = {};
+    if (opts.headers !== false) {
+      headers["RateLimit-Limit"] = String(result.limit);
+      headers["RateLimit-Remaining"] = String(result.remaining);
+      headers["RateLimit-Reset"] = String(Math.ceil(result.reset / 1000));
+      headers["RateLimit-Policy"] = `${current.limit};w=${Math.ceil(
+        current.window / 1000
+      )}`;
+      ctx[RATE_LIMIT] = headers;
+    }
+    if (!result.allowed) {
+      throw createHttpError(429, "Too Many Requests", {
+        type: "ratelimit.exceeded",
+        headers: {
+          "Retry-After": String(
+            Math.ceil((result.retryAfter || result.reset) / 1000)
+          ),
+        },
+      });
+    }
+    ctx.set(headers);
+    return next();
+  };
+}
+
+/**
+ * Match a request against `route`, `normalized` is its path
+ * folded like the route: prefixes only fold the case.
+ */
+function matchRoute(
+  route: RateLimitRoute & { methods?: string[]; prefix?: string },
+  method: string,
+  path: string,
+  normalized: string
+) {
+  if (route.methods && !route.methods.includes(method)) {
+    return false;
+  }
+  if (typeof route.path !== "string") {
+    return route.path.test(path);
+  }
+  return route.prefix !== undefined
+    ? normalized.startsWith(route.prefix)
+    : normalized === route.path;
+}
+
+/**
+ * Key of a client address, IPv4-mapped addresses as IPv4
+ * and IPv6 ones reduced to their `subnet` prefix.
+ */
+function ipKey(ip: string, subnet: number) {
+  const bytes = parseIp(ip);
+  if (!bytes) {
+    return ip;
+  }
+  if (bytes.slice(0, 12).join() === "0,0,0,0,0,0,0,0,0,0,255,255") {
+    return bytes.slice(12).join(".");
+  }
+  const groups: string[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    const bits = Math.min(16, Math.max(0, subnet - i * 8));
+    const mask = bits ? (0xffff << (16 - bits)) & 0xffff : 0;
+    groups.push((((bytes[i] << 8) | bytes[i + 1]) & mask).toString(16));
+  }
+  return `${groups.join(":")}/${subnet}`;
+}
@@ -1,4 +1,5 @@
 import { IncomingMessage } from "http";
+import { Http2ServerRequest } from "http2";
 import parse from "parseurl";
 import qs from "qs";
 import url from "url";
@@ -7,24 +8,78 @@ import accepts from "accepts";
 import fresh from "fresh";
 import contentType from "content-type";
 import typeis from "type-is";
+import type Application from "./application";
+import {
+  BodyOptions,
+  FormData,
+  JsonOptions,
+  MultipartOptions,
+  parseBody,
+  parseForm,
+  parseFormData,
+  parseJson,
+  parseText,
+  ParseOptions,
+} from "./body";
 import { only } from "./common";
+import type { Context } from "./context";
+import { Forwarded, forwarded } from "./proxy";
+import type { Responce } from "./responce";
+import { RequestInput, RequestSchema, validate, Validated } from "./validate";
 
 const { format: stringify } = url;
 const IP: unique symbol = Symbol("context#ip");
+const FORWARDED: unique symbol = Symbol("context#forwarded");
+
+/**
+ * Node request of an HTTP/1 or HTTP/2 server.
+ */
+export type IncomingRequest = IncomingMessage | Http2ServerRequest;
+
+/**
+ * Limits of `request.query` parsing, `qs` defaults apply
+ * to the ones left out.
+ */
+export interface QueryOptions {
+  /**
+   * Maximum nesting of `a[b][c]=` keys, defaults to `5`.
+   */
+  depth?: number;
+  /**
+   * Highest index of `a[1]=` parsed as an array, larger
+   * ones give an object, defaults to `20`.
+   */
+  arrayLimit?: number;
+  /**
+   * Parse `a.b=c` as `{ a: { b: "c" } }`.
+   */
+  allowDots?: boolean;
+  /**
+   * Parse `a=b,c` as `{ a: ["b", "c"] }`.
+   */
+  comma?: boolean;
+  /**
+   * Number of parameters parsed, the rest are ignored,
+   * defaults to `1000`.
+   */
+  parameterLimit?: number;
+}
+
 export class Request {
-  public req: IncomingMessage;
-  public app: any;
-  public ctx: any;
-  public response: any;
+  public req: IncomingRequest;
+  public app: Application<any, any>;
+  public ctx: Context;
+  public response: Responce;
   public originalUrl: string = "";
-  private _querycache = {};
+  // keyed by query strings, no prototype for `?__proto__` to reach
+  private _querycache: Record<string, any> = Object.create(null);
   private memoizedURL;
   public _accept;
   constructor(
-    req: IncomingMessage,
-    app: any,
-    ctx: any,
-    response: any,
+    req: IncomingRequest,
+    app: Application,
+    ctx: Context,
+    response: Responce,
     originalUrl: string
   ) {
     this.req = req;
@@ -37,20 +92,20 @@ export class Request {
     return this.req.headers;
   }
   public set header(val) {
-    this.req.headers = val;
+    (this.req as IncomingMessage).headers = val;
   }
   // alias header
   public get headers() {
     return this.req.headers;
   }
   public set headers(val) {
-    this.req.headers = val;
+    (this.req as IncomingMessage).headers = val;
   }
   public get method() {
     return this.req.method;
   }
   public set method(val) {
-    this.req.method = val;
+    (this.req as IncomingMessage).method = val;
   }
   public get url() {
     return this.req.url;
@@ -69,10 +124,10 @@ export class Request {
     return this.origin + this.originalUrl;
   }
   get path() {
-    return parse(this.req)!.pathname;
+    return parse(this.req as IncomingMessage)!.pathname;
   }
   set path(path) {
-    const url = parse(this.req)!;
+    const url = parse(this.req as IncomingMessage)!;
     if (url.pathname === path) {
       return;
     }
@@ -84,10 +139,10 @@ export class Request {
     if (!this.req) {
       return "";
     }
-    return (parse(this.req)!.query as string) || "";
+    return (parse(this.req as IncomingMessage)!.query as string) || "";
   }
   public set querystring(str: string) {
-    const url = parse(this.req)!;
+    const url = parse(this.req as IncomingMessage)!;
     if (url.search === `?${str}`) {
       return;
     }
@@ -98,7 +153,14 @@ export class Request {
   public get query() {
     const str = this.querystring;
     const c = this._querycache;
-    return c[str] || (c[str] = qs.parse(str));
+    return (
+      c[str] ||
+      (c[str] = qs.parse(str, {
+        ...this.app.queryOptions,
+        // never let `__proto__` and friends shadow prototype properties
+        allowPrototypes: false,
+      }))
+    );
   }
   public set query(obj) {
     this.querystring = qs.stringify(obj);
@@ -114,12 +176,11 @@ export class Request {
   }
   /**
    * Parse the "Host" header field host
-   * and support X-Forwarded-Host when a
-   * proxy is enabled.
+   * and support the forwarded host when
+   * the proxy is trusted.
    */
   public get host(): string {
-    const proxy = this.app.proxy;
-    let host = proxy && this.get("X-Forwarded-Host");
+    let host = this.forwarded.host;
     if (!host) {
       if (this.req.httpVersionMajor >= 2) host = this.get(":authority");
       if (!host) host = this.get("Host");
@@ -203,7 +264,7 @@ export class Request {
    */
   public get charset(): string {
     try {
-      const { parameters } = contentType.parse(this.req);
+      const { parameters } = contentType.parse(this.req as IncomingMessage);
       return parameters.charset || "";
     } catch (e) {
       return "";
@@ -221,9 +282,10 @@ export class Request {
   }
   /**
    * Return the protocol string "http" or "https"
-   * when requested with TLS. When the proxy setting
-   * is enabled the "X-Forwarded-Proto" header
-   * field will be trusted. If you're running behind
+   * when requested with TLS. When the proxy is
+   * trusted the "Forwarded" proto or "X-Forwarded-Proto"
+   * header field will be used, and the ":scheme"
+   * pseudo-header for HTTP/2 requests. If you're running behind
    * a reverse proxy that supplies https for you this
    * may be enabled.
    */
@@ -232,11 +294,14 @@ export class Request {
     if ((this.socket as any).encrypted) {
       return "https";
     }
-    if (!this.app.proxy) {
-      return "http";
+    const proto = this.forwarded.proto;
+    if (proto) {
+      return proto;
+    }
+    if (this.req.httpVersionMajor >= 2) {
+      return this.get(":scheme") || "http";
     }
-    const proto = this.get("X-Forwarded-Proto");
-    return proto ? proto.split(/\s*,\s*/, 1)[0] : "http";
+    return "http";
   }
   /**
    * Shorthand for:
@@ -247,26 +312,34 @@ export class Request {
     return this.protocol === "https";
   }
   /**
-   * When `app.proxy` is `true`, parse
-   * the "X-Forwarded-For" ip address list.
+   * Forwarding chain of the request, walked from the socket
+   * address through the proxies trusted by `app.trust`.
+   * Lazily memoized.
+   */
+  public get forwarded(): Forwarded {
+    if (!this[FORWARDED]) {
+      this[FORWARDED] = forwarded(
+        this.req,
+        this.app.trust,
+        this.app.proxyIpHeader
+      );
+    }
+    return this[FORWARDED];
+  }
+  /**
+   * The forwarded ip address list, as far as
+   * the proxies are trusted.
    *
    * For example if the value was "client, proxy1, proxy2"
    * you would receive the array `["client", "proxy1", "proxy2"]`
    * where "proxy2" is the furthest down-stream.
    */
-  public get ips() {
-    const proxy = this.app.proxy;
-    const val = this.get(this.app.proxyIpHeader);
-    let ips = proxy && val ? val.split(/\s*,\s*/) : [];
-    if (this.app.maxIpsCount > 0) {
-      ips = ips.slice(-this.app.maxIpsCount);
-    }
-    return ips;
+  public get ips(): string[] {
+    return this.forwarded.ips;
   }
   /**
-   * Return request's remote address
-   * When `app.proxy` is `true`, parse
-   * the "X-Forwarded-For" ip address list and return the first one
+   * Return request's remote address, the
+   * client of the trusted forwarding chain.
    */
   public get ip() {
     if (!this[IP]) {
@@ -351,7 +424,72 @@ export class Request {
    *     this.is('html'); // => false
    */
   public is(type, ...types: string[]): string | false | null {
-    return typeis(this.req, type, ...types);
+    return typeis(this.req as IncomingMessage, type, ...types);
+  }
+  /**
+   * Parse the request body according to its Content-Type:
+   * JSON, urlencoded and text bodies are buffered and decoded,
+   * multipart bodies are streamed to temporary files.
+   * Resolves to `undefined` when there is no body.
+   *
+   * Examples:
+   *
+   *     const body = await this.body();
+   *     const body = await this.body({ limit: '100kb' });
+   */
+  public body<T = any>(opts?: ParseOptions): Promise<T> {
+    return parseBody(this, opts);
+  }
+  /**
+   * Parse the request body as JSON.
+   */
+  public json<T = any>(opts?: JsonOptions): Promise<T> {
+    return parseJson(this, opts);
+  }
+  /**
+   * Read the request body as a string decoded with `this.charset`.
+   */
+  public text(opts?: BodyOptions): Promise<string> {
+    return parseText(this, opts);
+  }
+  /**
+   * Parse an urlencoded request body.
+   */
+  public form<T = any>(opts?: BodyOptions): Promise<T> {
+    return parseForm(this, opts) as Promise<any>;
+  }
+  /**
+   * Parse a multipart request body into fields and uploaded files.
+   */
+  public formData(opts?: MultipartOptions): Promise<FormData> {
+    return parseFormData(this, opts);
+  }
+  /**
+   * Coerce and validate request parts against `schema`, throwing
+   * a `400` which lists every failing field. `query`, `params`
+   * and `headers` default to the ones of the request, the body
+   * has to be parsed first.
+   *
+   * Examples:
+   *
+   *     const { query, params } = this.validate({}, {
+   *       query: { page: schema.integer().min(1).default(1) },
+   *       params: { id: schema.integer() },
+   *     });
+   */
+  public validate<S extends RequestSchema>(
+    input: RequestInput,
+    schema: S
+  ): Validated<S> {
+    return validate(
+      {
+        query: this.query,
+        params: this.ctx.params,
+        headers: this.headers,
+        ...input,
+      },
+      schema
+    );
   }
   /**
    * Return the request mime type void of
@@ -411,7 +549,9 @@ export class Request {
    * Lazily memoized.
    */
   private get accept() {
-    return this._accept || (this._accept = accepts(this.req));
+    return (
+      this._accept || (this._accept = accepts(this.req as IncomingMessage))
+    );
   }
   /**
    * Set accept object.
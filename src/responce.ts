@@ -1,5 +1,6 @@
 import assert from "assert";
-import { IncomingMessage, ServerResponse } from "http";
+import { OutgoingHttpHeaders, OutgoingMessage, ServerResponse } from "http";
+import { Http2ServerResponse } from "http2";
 import { extname } from "path";
 import statuses from "statuses";
 import { Stream } from "stream";
@@ -7,16 +8,44 @@ import vary from "vary";
 import contentDisposition from "content-disposition";
 import typeis from "type-is";
 import destroy from "destroy";
+import encodeUrl from "encodeurl";
+import escape from "escape-html";
 import onFinish from "on-finished";
+import type Application from "./application";
 import { getType, only } from "./common";
+import type { Context } from "./context";
+import type { IncomingRequest, Request } from "./request";
+import { EventSink, SseOptions } from "./sse";
+
+/**
+ * Node response of an HTTP/1 or HTTP/2 server.
+ */
+export type OutgoingResponse = ServerResponse | Http2ServerResponse;
+
+export interface PushOptions {
+  /**
+   * Status of the pushed response, defaults to `200`.
+   */
+  status?: number;
+  /**
+   * Content type or extension of the pushed body.
+   */
+  type?: string;
+  headers?: OutgoingHttpHeaders;
+  body?: string | Buffer | Stream;
+}
 
 export class Responce {
-  public res: ServerResponse;
-  public req: IncomingMessage;
+  public res: OutgoingResponse;
+  public req: IncomingRequest;
+  public app!: Application<any, any>;
+  public ctx!: Context;
+  public request!: Request;
   public _explicitStatus: boolean = false;
   public _explicitNullBody: boolean = false;
-  private _body: any;
-  constructor(responce: ServerResponse, req: IncomingMessage) {
+  private _body: unknown;
+  private _trailers: Record<string, string> = {};
+  constructor(responce: OutgoingResponse, req: IncomingRequest) {
     this.res = responce;
     this.req = req;
   }
@@ -56,7 +85,7 @@ export class Responce {
     this._explicitStatus = true;
     this.res.statusCode = code;
     if (this.req.httpVersionMajor < 2) {
-      this.res.statusMessage = statuses[code];
+      this.res.statusMessage = statuses.message[code] || "";
     }
     if (this.body && statuses.empty[code]) {
       this.body = null;
@@ -66,7 +95,7 @@ export class Responce {
    * Get response status message
    */
   public get message(): string {
-    return this.res.statusMessage || statuses[this.status];
+    return this.res.statusMessage || statuses.message[this.status] || "";
   }
   /**
    * Set response status message
@@ -77,7 +106,7 @@ export class Responce {
   /**
    * Get response body.
    */
-  public get body() {
+  public get body(): unknown {
     return this._body;
   }
   /**
@@ -85,7 +114,7 @@ export class Responce {
    *
    * @param {String|Buffer|Object|Stream} val
    */
-  public set body(val) {
+  public set body(val: unknown) {
     const original = this._body;
     this._body = val;
 
@@ -127,7 +156,7 @@ export class Responce {
 
     // stream
     if (val instanceof Stream) {
-      onFinish(this.res, destroy.bind(null, val));
+      onFinish(this.res as OutgoingMessage, destroy.bind(null, val));
       if (original !== val) {
         val.once("error", (err) => this.ctx.onerror(err));
         // overwriting
@@ -145,17 +174,17 @@ export class Responce {
   /**
    * Set Content-Length field to `n`.
    */
-  public set length(n: number) {
-    if (!this.has("Transfer-Encoding")) {
+  public set length(n: number | undefined) {
+    if (n !== undefined && !this.has("Transfer-Encoding")) {
       this.set("Content-Length", n);
     }
   }
   /**
    * Return parsed response Content-Length when present.
    */
-  public get length(): number {
+  public get length(): number | undefined {
     if (this.has("Content-Length")) {
-      return parseInt(this.get("Content-Length"), 10) || 0;
+      return parseInt(this.get("Content-Length") as string, 10) || 0;
     }
 
     const { body } = this;
@@ -177,7 +206,7 @@ export class Responce {
     if (this.headerSent) {
       return;
     }
-    vary(this.res, field);
+    vary(this.res as ServerResponse, field);
   }
   /**
    * Perform a 302 redirect to `url`.
@@ -193,7 +222,7 @@ export class Responce {
    *    this.redirect('/login');
    *    this.redirect('http://google.com');
    */
-  public redirect(url: string, alt: string) {
+  public redirect(url: string, alt?: string) {
     // location
     if (url === "back") url = this.ctx.get("Referrer") || alt || "/";
     this.set("Location", encodeUrl(url));
@@ -216,7 +245,7 @@ export class Responce {
   /**
    * Set Content-Disposition header to "attachment" with optional `filename`.
    */
-  public attachment(filename: string, options) {
+  public attachment(filename?: string, options?: contentDisposition.Options) {
     if (filename) {
       this.type = extname(filename);
     }
@@ -248,7 +277,11 @@ export class Responce {
    *     this.response.lastModified = new Date();
    *     this.response.lastModified = '2013-09-13';
    */
-  public set lastModified(val: String | Date) {
+  public set lastModified(val: string | Date | undefined) {
+    if (!val) {
+      this.remove("Last-Modified");
+      return;
+    }
     if (typeof val === "string") {
       val = new Date(val);
     }
@@ -257,11 +290,9 @@ export class Responce {
   /**
    * Get the Last-Modified date in Date form, if it exists.
    */
-  public get lastModified() {
-    const date = this.get("last-modified");
-    if (date) {
-      return new Date(date);
-    }
+  public get lastModified(): Date | undefined {
+    const date = this.get("last-modified") as string;
+    return date ? new Date(date) : undefined;
   }
   /**
    * Set the ETag of a response.
@@ -281,14 +312,14 @@ export class Responce {
    * Get the ETag of a response.
    */
   public get etag(): string {
-    return this.get("ETag");
+    return this.get("ETag") as string;
   }
   /**
    * Return the response mime type void of
    * parameters such as "charset".
    */
   public get type(): string {
-    const type = this.get("Content-Type");
+    const type = this.get("Content-Type") as string;
     if (!type) {
       return "";
     }
@@ -299,7 +330,7 @@ export class Responce {
    * Pretty much the same as `this.request.is()`.
    */
   public is(type, ...types) {
-    return typeis(this.type, type, ...types);
+    return typeis.is(this.type, [type, ...types]);
   }
   /**
    * Return response header.
@@ -313,7 +344,7 @@ export class Responce {
    *     // => "text/plain"
    */
   public get(field: string) {
-    return this.res.getHeader(field);
+    return this.res.getHeader(field) || "";
   }
   /**
    * Returns true if the header identified by name is currently set in the outgoing headers.
@@ -340,12 +371,15 @@ export class Responce {
    *    this.set('Accept', 'application/json');
    *    this.set({ Accept: 'text/plain', 'X-API-Key': 'tobi' });
    */
-  public set(field, val) {
+  public set(
+    field: string | Record<string, string | number | string[]>,
+    val?: string | number | string[]
+  ) {
     if (this.headerSent) {
       return;
     }
 
-    if (arguments.length === 2) {
+    if (typeof field === "string") {
       if (Array.isArray(val))
         val = val.map((v) => (typeof v === "string" ? v : String(v)));
       else if (typeof val !== "string") val = String(val);
@@ -367,17 +401,17 @@ export class Responce {
    * this.append('Warning', '199 Miscellaneous warning');
    * ```
    */
-  public append(field, val) {
+  public append(field: string, val: string | string[]) {
     const prev = this.get(field);
     if (prev) {
-      val = Array.isArray(prev) ? prev.concat(val) : [prev].concat(val);
+      val = (Array.isArray(prev) ? prev : [String(prev)]).concat(val);
     }
     return this.set(field, val);
   }
   /**
    * Remove header `field`.
    */
-  public remove(field) {
+  public remove(field: string) {
     if (this.headerSent) {
       return;
     }
@@ -421,10 +455,94 @@ export class Responce {
   public toJSON() {
     return only(this, ["status", "message", "header"]);
   }
+  /**
+   * Set trailer `field` to `val`, sent after the body. Set it before
+   * the response starts to declare it in the `Trailer` header, its
+   * value can change until a streamed body ends. HTTP/1 responses
+   * with trailers use chunked encoding.
+   *
+   *    this.setTrailer('Server-Timing', 'db;dur=53');
+   */
+  public setTrailer(field: string, val: string) {
+    this._trailers[field] = val;
+    if (!this.headerSent) {
+      const declared = String(this.get("Trailer"))
+        .split(/\s*,\s*/)
+        .filter(Boolean);
+      if (
+        !declared.some((name) => name.toLowerCase() === field.toLowerCase())
+      ) {
+        this.set("Trailer", declared.concat(field).join(", "));
+      }
+    }
+    this.res.addTrailers(this._trailers);
+  }
+  /**
+   * Trailers set with `setTrailer()`.
+   */
+  public get trailers(): Record<string, string> {
+    return { ...this._trailers };
+  }
+  /**
+   * Push `path` to HTTP/2 clients that allow it, resolving
+   * to `false` when the response could not be pushed.
+   *
+   *    await this.push('/app.css', {
+   *      type: 'css',
+   *      body: fs.createReadStream('app.css'),
+   *    });
+   */
+  public push(path: string, opts: PushOptions = {}): Promise<boolean> {
+    const res = this.res;
+    if (!(res instanceof Http2ServerResponse) || !res.stream.pushAllowed) {
+      return Promise.resolve(false);
+    }
+    return new Promise((resolve) => {
+      const headers = { ...opts.headers, ":path": path };
+      res.createPushResponse(headers, (err, pushed) => {
+        if (err) {
+          resolve(false);
+          return;
+        }
+        // clients may cancel pushes they already have cached
+        pushed.stream.on("error", () => {});
+        pushed.statusCode = opts.status || 200;
+        if (opts.type) {
+          pushed.setHeader("Content-Type", getType(opts.type) || opts.type);
+        }
+        const { body } = opts;
+        if (body instanceof Stream) {
+          body.pipe(pushed);
+        } else if (body != null) {
+          pushed.setHeader("Content-Length", Buffer.byteLength(body));
+          pushed.end(body);
+        } else {
+          pushed.end();
+        }
+        resolve(true);
+      });
+    });
+  }
+  /**
+   * Switch to a `text/event-stream` response, flushing the
+   * headers and returning the sink to send events to.
+   *
+   *    const sse = this.sse({ heartbeat: 10000 });
+   *    sse.send({ event: 'progress', data: { pct: 50 } });
+   */
+  public sse(opts?: SseOptions): EventSink {
+    return new EventSink(this.ctx, opts);
+  }
   /**
    * Flush any set headers and begin the body
    */
   public flushHeaders() {
+    if (this.res instanceof Http2ServerResponse) {
+      if (!this.res.headersSent) {
+        this.res.writeHead(this.res.statusCode);
+      }
+      return;
+    }
     this.res.flushHeaders();
   }
 }
@@ -0,0 +1,705 @@
+import compose from "koa-compose";
+import qs from "qs";
+import type { Context } from "./context";
+
+type CutAt<
+  S extends string,
+  C extends string
+> = S extends `${infer Head}${C}${string}` ? Head : S;
+type ParamName<S extends string> = CutAt<
+  CutAt<CutAt<CutAt<S, "(">, "?">, ".">,
+  "-"
+>;
+type ParamObject<S extends string> = S extends `${string}?`
+  ? { [K in ParamName<S>]?: string }
+  : { [K in ParamName<S>]: string };
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+/**
+ * Params object of a route path, inferred from its literal type:
+ *
+ *    RouteParams<"/users/:id(\\d+)/posts/:slug?">
+ *    // => { id: string; slug?: string }
+ */
+export type RouteParams<P extends string> = string extends P
+  ? Record<string, string>
+  : Simplify<
+      P extends `${string}:${infer Rest}`
+        ? Rest extends `${infer Segment}/${infer Tail}`
+          ? ParamObject<Segment> & RouteParams<Tail>
+          : ParamObject<Rest>
+        : P extends `${string}*${infer Name}`
+        ? { [K in Name extends "" ? "wild" : Name]: string }
+        : {}
+    >;
+
+export type RouterContext<P = Record<string, string>> = Omit<
+  Context,
+  "params"
+> & {
+  params: P;
+};
+
+export type RouteMiddleware<P = Record<string, string>> = (
+  ctx: RouterContext<P>,
+  next: () => Promise<any>
+) => any;
+
+/**
+ * Signature of `router.get()`, `router.post()`... and
+ * the matching shorthands on the application.
+ */
+export interface RouteMethod<R> {
+  <P extends string>(
+    path: P,
+    ...middleware: RouteMiddleware<RouteParams<P>>[]
+  ): R;
+  <P extends string>(
+    name: string,
+    path: P,
+    ...middleware: RouteMiddleware<RouteParams<P>>[]
+  ): R;
+}
+
+export interface RouterOptions {
+  /**
+   * Prefix for all routes of the router.
+   */
+  prefix?: string;
+  /**
+   * Case sensitive matching, defaults to `false`.
+   */
+  sensitive?: boolean;
+  /**
+   * Treat "/foo" and "/foo/" as different urls, defaults to `false`.
+   */
+  strict?: boolean;
+  /**
+   * Methods the router implements, others get a `501 Not Implemented`.
+   */
+  methods?: string[];
+}
+
+type Token =
+  | { type: "static"; value: string }
+  | { type: "param"; name: string; pattern?: string; optional: boolean }
+  | { type: "wildcard"; name: string };
+
+interface Layer {
+  name?: string;
+  path: string;
+  methods: string[];
+  stack: RouteMiddleware<any>[];
+}
+
+interface RouteEntry {
+  name?: string;
+  path: string;
+  keys: string[];
+  tokens: Token[];
+  methods: string[];
+  chain: RouteMiddleware<any>[];
+}
+
+interface ParamEdge {
+  source: string;
+  pattern?: RegExp;
+  node: RouteNode;
+}
+
+const ALL = "*";
+const METHODS = ["HEAD", "OPTIONS", "GET", "PUT", "PATCH", "POST", "DELETE"];
+
+/**
+ * Node of the radix tree, static edges are compressed on their
+ * common prefix and tried before param and wildcard edges.
+ */
+class RouteNode {
+  public prefix: string;
+  public children: RouteNode[] = [];
+  public params: ParamEdge[] = [];
+  public wildcard?: RouteNode;
+  public routes = new Map<string, RouteEntry[]>();
+  constructor(prefix: string = "") {
+    this.prefix = prefix;
+  }
+  /**
+   * Insert the static `path` below this node and
+   * return the node it ends on.
+   */
+  public insertStatic(path: string): RouteNode {
+    if (!path) {
+      return this;
+    }
+    for (let i = 0; i < this.children.length; i++) {
+      const child = this.children[i];
+      const common = commonPrefixLength(child.prefix, path);
+      if (!common) {
+        continue;
+      }
+      if (common < child.prefix.length) {
+        // split the edge
+        const mid = new RouteNode(child.prefix.slice(0, common));
+        child.prefix = child.prefix.slice(common);
+        mid.children.push(child);
+        this.children[i] = mid;
+        return mid.insertStatic(path.slice(common));
+      }
+      return child.insertStatic(path.slice(common));
+    }
+    const node = new RouteNode(path);
+    this.children.push(node);
+    return node;
+  }
+  public insertParam(source: string | undefined): RouteNode {
+    const key = source || "";
+    let edge = this.params.find((e) => e.source === key);
+    if (!edge) {
+      edge = {
+        source: key,
+        pattern: source ? new RegExp(`^(?:${source})$`) : undefined,
+        node: new RouteNode(),
+      };
+      // constrained params are tried first
+      if (source) {
+        this.params.unshift(edge);
+      } else {
+        this.params.push(edge);
+      }
+    }
+    return edge.node;
+  }
+  public insertWildcard(): RouteNode {
+    if (!this.wildcard) {
+      this.wildcard = new RouteNode();
+    }
+    return this.wildcard;
+  }
+  /**
+   * Walk every node matching `path` from `index`, calling `visit`
+   * with the captured values until it returns `true`.
+   */
+  public walk(
+    path: string,
+    lower: string,
+    index: number,
+    values: string[],
+    visit: (node: RouteNode, values: string[]) => boolean
+  ): boolean {
+    if (index === path.length && this.routes.size && visit(this, values)) {
+      return true;
+    }
+
+    for (const child of this.children) {
+      if (lower.startsWith(child.prefix, index)) {
+        if (
+          child.walk(path, lower, index + child.prefix.length, values, visit)
+        ) {
+          return true;
+        }
+      }
+    }
+
+    if (index < path.length) {
+      const slash = path.indexOf("/", index);
+      const segmentEnd = slash === -1 ? path.length : slash;
+      for (const edge of this.params) {
+        // a pattern may span segments, a plain param may not
+        const last = edge.pattern ? path.length : segmentEnd;
+        for (let end = last; end > index; end--) {
+          const value = path.slice(index, end);
+          if (edge.pattern && !edge.pattern.test(value)) {
+            continue;
+          }
+          values.push(value);
+          if (edge.node.walk(path, lower, end, values, visit)) {
+            return true;
+          }
+          values.pop();
+        }
+      }
+    }
+
+    if (this.wildcard && this.wildcard.routes.size) {
+      values.push(path.slice(index));
+      if (visit(this.wildcard, values)) {
+        return true;
+      }
+      values.pop();
+    }
+    return false;
+  }
+}
+
+/**
+ * Router with path params, named routes and nested routers,
+ * matched through a radix tree compiled on first use.
+ *
+ *    const router = new Router({ prefix: '/api' });
+ *    router.get('user', '/users/:id(\\d+)', async ctx => {
+ *      ctx.body = await db.users.find(Number(ctx.params.id));
+ *    });
+ *    app.use(router.routes());
+ */
+export class Router {
+  public opts: RouterOptions;
+  public methods: string[];
+  public get: RouteMethod<this> = this.verb(["GET"]);
+  public post: RouteMethod<this> = this.verb(["POST"]);
+  public put: RouteMethod<this> = this.verb(["PUT"]);
+  public patch: RouteMethod<this> = this.verb(["PATCH"]);
+  public delete: RouteMethod<this> = this.verb(["DELETE"]);
+  public del: RouteMethod<this> = this.delete;
+  public head: RouteMethod<this> = this.verb(["HEAD"]);
+  public options: RouteMethod<this> = this.verb(["OPTIONS"]);
+  public all: RouteMethod<this> = this.verb([ALL]);
+  private stack: (Layer | { prefix: string; router: Router })[] = [];
+  private middleware: RouteMiddleware<any>[] = [];
+  private revision = 0;
+  private compiled?: {
+    revision: number;
+    root: RouteNode;
+    entries: RouteEntry[];
+  };
+  constructor(opts: RouterOptions = {}) {
+    this.opts = opts;
+    this.methods = opts.methods || METHODS;
+  }
+  /**
+   * Register a route for the given `methods`.
+   */
+  public register(
+    methods: string[],
+    path: string,
+    middleware: RouteMiddleware<any>[],
+    name?: string
+  ) {
+    if (typeof path !== "string") {
+      throw new TypeError("route path must be a string");
+    }
+    middleware.forEach((fn) => {
+      if (typeof fn !== "function") {
+        throw new TypeError(
+          `${methods.join(",")} \`${path}\`: middleware must be a function`
+        );
+      }
+    });
+    this.stack.push({
+      name,
+      path,
+      methods: methods.map((m) => m.toUpperCase()),
+      stack: middleware,
+    });
+    this.revision++;
+    return this;
+  }
+  /**
+   * Use middleware for every route of this router,
+   * or mount nested routers under an optional `prefix`.
+   *
+   *    router.use(auth);
+   *    router.use('/users', usersRouter);
+   */
+  public use(...args: (string | Router | RouteMiddleware<any>)[]) {
+    const prefix = typeof args[0] === "string" ? (args.shift() as string) : "";
+    for (const arg of args) {
+      if (arg instanceof Router) {
+        if (this.isMountedIn(arg)) {
+          throw new Error("cannot mount a router inside itself");
+        }
+        this.stack.push({ prefix, router: arg });
+      } else if (typeof arg === "function") {
+        this.middleware.push(arg);
+      } else {
+        throw new TypeError("router.use() requires a router or middleware");
+      }
+    }
+    this.revision++;
+    return this;
+  }
+  /**
+   * Set the prefix of the router.
+   */
+  public prefix(prefix: string) {
+    this.opts.prefix = prefix;
+    this.revision++;
+    return this;
+  }
+  /**
+   * Generate the url of the route `name`.
+   *
+   *    router.url('user', { id: 3 }, { query: { page: 2 } });
+   *    // => "/users/3?page=2"
+   */
+  public url(
+    name: string,
+    params: Record<string, string | number> = {},
+    options: { query?: Record<string, any> | string } = {}
+  ): string {
+    const entry = this.compile().entries.find((e) => e.name === name);
+    if (!entry) {
+      throw new Error(`no route found for name: ${name}`);
+    }
+    let url = "";
+    for (const token of entry.tokens) {
+      if (token.type === "static") {
+        url += token.value;
+        continue;
+      }
+      const value = params[token.name];
+      if (value == null) {
+        if (token.type === "param" && token.optional) {
+          continue;
+        }
+        throw new TypeError(`missing param "${token.name}" for route ${name}`);
+      }
+      const str = String(value);
+      if (
+        token.type === "param" &&
+        token.pattern &&
+        !new RegExp(`^(?:${token.pattern})$`).test(str)
+      ) {
+        throw new TypeError(
+          `param "${token.name}" of route ${name} does not match ${token.pattern}`
+        );
+      }
+      url +=
+        token.type === "wildcard"
+          ? str.split("/").map(encodeURIComponent).join("/")
+          : encodeURIComponent(str);
+    }
+    const query =
+      typeof options.query === "string"
+        ? options.query
+        : options.query && qs.stringify(options.query);
+    return query ? `${url}?${query}` : url;
+  }
+  /**
+   * Return the router middleware, answering `OPTIONS`,
+   * `405 Method Not Allowed` and `501 Not Implemented` for
+   * matched paths no downstream middleware handled.
+   */
+  public routes() {
+    const dispatch = async (ctx: Context, next: () => Promise<any>) => {
+      const { root } = this.compile();
+      const path = this.normalize(ctx.path || "/");
+      const lower = this.opts.sensitive ? path : path.toLowerCase();
+      const method = (ctx.method || "GET").toUpperCase();
+
+      let found: { entries: RouteEntry[]; values: string[] } | undefined;
+      root.walk(path, lower, 0, [], (node, values) => {
+        const entries =
+          node.routes.get(method) ||
+          (method === "HEAD" ? node.routes.get("GET") : undefined) ||
+          node.routes.get(ALL);
+        if (entries) {
+          found = { entries, values: values.slice() };
+          return true;
+        }
+        return false;
+      });
+
+      if (found) {
+        const { entries, values } = found;
+        // a second route matching the same method runs on `next()`
+        const chain = entries.map(
+          (entry): RouteMiddleware =>
+            (c, n) => {
+              const params = decodeParams(entry.keys, values);
+              if (!params) {
+                c.throw(400, `failed to decode params of ${path}`);
+              }
+              c.params = { ...c.params, ...params };
+              c.routePath = entry.path;
+              c.routeName = entry.name;
+              return compose(entry.chain)(c, n);
+            }
+        );
+        return compose(chain)(ctx as RouterContext, next);
+      }
+
+      await next();
+
+      // downstream handled the request
+      if (ctx.status !== 404 || ctx.body != null) {
+        return;
+      }
+
+      const allowed = new Set<string>();
+      root.walk(path, lower, 0, [], (node) => {
+        node.routes.forEach((_, m) => allowed.add(m));
+        return false;
+      });
+      if (!allowed.size) {
+        return;
+      }
+      if (allowed.has(ALL)) {
+        return;
+      }
+      if (allowed.has("GET")) {
+        allowed.add("HEAD");
+      }
+      allowed.add("OPTIONS");
+      const allow = this.methods.filter((m) => allowed.has(m));
+      allowed.forEach((m) => {
+        if (allow.indexOf(m) === -1) {
+          allow.push(m);
+        }
+      });
+
+      if (this.methods.indexOf(method) === -1) {
+        ctx.status = 501;
+        ctx.set("Allow", allow.join(", "));
+        return;
+      }
+      if (method === "OPTIONS") {
+        ctx.status = 200;
+        ctx.body = "";
+        ctx.set("Allow", allow.join(", "));
+        return;
+      }
+      ctx.status = 405;
+      ctx.set("Allow", allow.join(", "));
+    };
+    return dispatch;
+  }
+  /**
+   * Alias of `routes()`.
+   */
+  public middlewares() {
+    return this.routes();
+  }
+  /**
+   * Compile the routes of this router and its nested
+   * routers into a radix tree, rebuilt after new registrations.
+   */
+  private compile() {
+    const revision = this.totalRevision();
+    if (this.compiled && this.compiled.revision === revision) {
+      return this.compiled;
+    }
+    const root = new RouteNode();
+    const entries = this.flatten("", []);
+    for (const entry of entries) {
+      for (const tokens of expandOptional(entry.tokens)) {
+        let node = root;
+        for (const token of tokens) {
+          if (token.type === "static") {
+            const value = this.opts.sensitive
+              ? token.value
+              : token.value.toLowerCase();
+            node = node.insertStatic(value);
+          } else if (token.type === "param") {
+            node = node.insertParam(token.pattern);
+          } else {
+            node = node.insertWildcard();
+          }
+        }
+        const keys = tokens
+          .filter((t) => t.type !== "static")
+          .map((t) => (t as { name: string }).name);
+        const leafEntry = { ...entry, keys };
+        const methods = entry.methods.length ? entry.methods : [ALL];
+        for (const method of methods) {
+          const list = node.routes.get(method) || [];
+          list.push(leafEntry);
+          node.routes.set(method, list);
+        }
+      }
+    }
+    this.compiled = { revision, root, entries };
+    return this.compiled;
+  }
+  private flatten(
+    prefix: string,
+    inherited: RouteMiddleware<any>[]
+  ): RouteEntry[] {
+    const base = joinPaths(prefix, this.opts.prefix || "");
+    const middleware = inherited.concat(this.middleware);
+    const entries: RouteEntry[] = [];
+    for (const item of this.stack) {
+      if ("router" in item) {
+        entries.push(
+          ...item.router.flatten(joinPaths(base, item.prefix), middleware)
+        );
+        continue;
+      }
+      const path = this.normalize(joinPaths(base, item.path) || "/");
+      const tokens = parsePath(path);
+      entries.push({
+        name: item.name,
+        path,
+        tokens,
+        keys: [],
+        methods: item.methods.filter((m) => m !== ALL),
+        chain: middleware.concat(item.stack),
+      });
+    }
+    return entries;
+  }
+  private totalRevision(): number {
+    return this.stack.reduce(
+      (sum, item) =>
+        "router" in item ? sum + item.router.totalRevision() : sum,
+      this.revision
+    );
+  }
+  private isMountedIn(router: Router): boolean {
+    return (
+      router === this ||
+      router.stack.some(
+        (item) => "router" in item && this.isMountedIn(item.router)
+      )
+    );
+  }
+  private verb(methods: string[]) {
+    return ((...args: any[]) => {
+      if (typeof args[1] === "string") {
+        const [name, path, ...middleware] = args;
+        return this.register(methods, path, middleware, name);
+      }
+      const [path, ...middleware] = args;
+      return this.register(methods, path, middleware);
+    }) as RouteMethod<any>;
+  }
+  /**
+   * Drop the trailing slash unless in strict mode.
+   */
+  private normalize(path: string) {
+    if (this.opts.strict || path.length <= 1) {
+      return path;
+    }
+    return path.endsWith("/") ? path.slice(0, -1) : path;
+  }
+}
+
+/**
+ * Parse a route path into static, param and wildcard tokens.
+ *
+ *    parsePath('/users/:id(\\d+)/*rest');
+ */
+function parsePath(path: string): Token[] {
+  const tokens: Token[] = [];
+  let value = "";
+  let i = 0;
+  while (i < path.length) {
+    const char = path[i];
+    if (char === "\\") {
+      value += path[i + 1] || "";
+      i += 2;
+      continue;
+    }
+    if (char === ":") {
+      const match = /^[A-Za-z0-9_]+/.exec(path.slice(i + 1));
+      if (!match) {
+        throw new TypeError(`missing param name at ${i} in ${path}`);
+      }
+      let j = i + 1 + match[0].length;
+      let pattern: string | undefined;
+      if (path[j] === "(") {
+        let depth = 1;
+        let k = j + 1;
+        for (; k < path.length && depth; k++) {
+          if (path[k] === "\\") {
+            k++;
+          } else if (path[k] === "(") {
+            depth++;
+          } else if (path[k] === ")") {
+            depth--;
+          }
+        }
+        if (depth) {
+          throw new TypeError(`unbalanced pattern at ${j} in ${path}`);
+        }
+        pattern = path.slice(j + 1, k - 1);
+        j = k;
+      }
+      const optional = path[j] === "?";
+      if (optional) {
+        j++;
+      }
+      if (value) {
+        tokens.push({ type: "static", value });
+        value = "";
+      }
+      tokens.push({ type: "param", name: match[0], pattern, optional });
+      i = j;
+      continue;
+    }
+    if (char === "*") {
+      const match = /^[A-Za-z0-9_]*/.exec(path.slice(i + 1)) as RegExpExecArray;
+      if (i + 1 + match[0].length !== path.length) {
+        throw new TypeError(`wildcard must end the path in ${path}`);
+      }
+      if (value) {
+        tokens.push({ type: "static", value });
+        value = "";
+      }
+      tokens.push({ type: "wildcard", name: match[0] || "wild" });
+      break;
+    }
+    value += char;
+    i++;
+  }
+  if (value) {
+    tokens.push({ type: "static", value });
+  }
+  return tokens;
+}
+
+/**
+ * Expand optional params into every combination of tokens,
+ * dropping the preceding slash along with a missing param.
+ */
+function expandOptional(tokens: Token[]): Token[][] {
+  let results: Token[][] = [[]];
+  for (const token of tokens) {
+    if (token.type !== "param" || !token.optional) {
+      results = results.map((r) => r.concat(token));
+      continue;
+    }
+    const without = results.map((r) => {
+      const last = r[r.length - 1];
+      if (last && last.type === "static" && last.value.endsWith("/")) {
+        const value = last.value.slice(0, -1);
+        return value
+          ? r.slice(0, -1).concat({ type: "static", value })
+          : r.slice(0, -1);
+      }
+      return r;
+    });
+    results = results.map((r) => r.concat(token)).concat(without);
+  }
+  return results.map((r) => (r.length ? r : [{ type: "static", value: "/" }]));
+}
+
+function decodeParams(keys: string[], values: string[]) {
+  const params: Record<string, string> = {};
+  for (let i = 0; i < keys.length; i++) {
+    try {
+      params[keys[i]] = decodeURIComponent(values[i]);
+    } catch (err) {
+      return;
+    }
+  }
+  return params;
+}
+
+function joinPaths(a: string, b: string) {
+  if (!b) {
+    return a;
+  }
+  if (!a) {
+    return b;
+  }
+  return a.replace(/\/+$/, "") + (b[0] === "/" ? b : `/${b}`);
+}
+
+function commonPrefixLength(a: string, b: string) {
+  const max = Math.min(a.length, b.length);
+  let i = 0;
+  while (i < max && a.charCodeAt(i) === b.charCodeAt(i)) {
+    i++;
+  }
+  return i;
+}
@@ -0,0 +1,479 @@
+import crypto from "crypto";
+import { parseJson } from "./body";
+import type { Context } from "./context";
+import { createHttpError } from "./errors";
+import type { Request } from "./request";
+
+/**
+ * Value of a CSP directive: sources, `true` for directives
+ * without a value like `upgrade-insecure-requests`, `false`
+ * to leave a default one out, or a function of the request.
+ */
+export type CspDirectiveValue =
+  | string
+  | string[]
+  | boolean
+  | ((ctx: Context) => string | string[]);
+
+/**
+ * Directives keyed by name, either `script-src` or `scriptSrc`.
+ */
+export type CspDirectives = Record<string, CspDirectiveValue>;
+
+export interface CspOptions {
+  directives?: CspDirectives;
+  /**
+   * Start from the default directives, defaults to `true`.
+   */
+  useDefaults?: boolean;
+  /**
+   * Add a per-request nonce, exposed as `ctx.state.cspNonce`,
+   * to `script-src` and `style-src` or to the listed directives.
+   */
+  nonce?: boolean | string[];
+  /**
+   * Send `Content-Security-Policy-Report-Only`, reporting
+   * violations without enforcing the policy.
+   */
+  reportOnly?: boolean;
+  /**
+   * Endpoint violations are reported to, through both
+   * `report-uri` and the Reporting API.
+   */
+  reportUri?: string;
+}
+
+export interface HstsOptions {
+  /**
+   * In seconds, defaults to 180 days.
+   */
+  maxAge?: number;
+  /**
+   * Defaults to `true`.
+   */
+  includeSubDomains?: boolean;
+  preload?: boolean;
+}
+
+export interface SecurityHeadersOptions {
+  /**
+   * `Content-Security-Policy`, not sent unless configured.
+   */
+  contentSecurityPolicy?: CspOptions | false;
+  /**
+   * `Strict-Transport-Security`, only sent on secure requests.
+   */
+  hsts?: HstsOptions | false;
+  /**
+   * `X-Content-Type-Options: nosniff`, defaults to `true`.
+   */
+  noSniff?: boolean;
+  /**
+   * Defaults to `no-referrer`.
+   */
+  referrerPolicy?: string | string[] | false;
+  /**
+   * Defaults to `same-origin`.
+   */
+  crossOriginOpenerPolicy?: string | false;
+  /**
+   * Not sent by default, `require-corp` blocks cross-origin
+   * resources which don't opt in.
+   */
+  crossOriginEmbedderPolicy?: string | false;
+  /**
+   * Defaults to `same-origin`.
+   */
+  crossOriginResourcePolicy?: string | false;
+  /**
+   * Allowed origins by feature, `"self"`, `"*"` or origins,
+   * an empty list disables the feature. Defaults to disabling
+   * `camera`, `microphone` and `geolocation`.
+   */
+  permissionsPolicy?: Record<string, string[]> | false;
+}
+
+/**
+ * A violation from either report format.
+ */
+export interface CspViolation {
+  documentUrl: string;
+  blockedUrl?: string;
+  effectiveDirective: string;
+  originalPolicy?: string;
+  disposition: "enforce" | "report";
+  referrer?: string;
+  statusCode?: number;
+  sourceFile?: string;
+  lineNumber?: number;
+  columnNumber?: number;
+  sample?: string;
+  userAgent?: string;
+}
+
+const DEFAULT_DIRECTIVES: CspDirectives = {
+  "default-src": "'self'",
+  "base-uri": "'self'",
+  "form-action": "'self'",
+  "frame-ancestors": "'self'",
+  "object-src": "'none'",
+};
+
+const NONCE_DIRECTIVES = ["script-src", "style-src"];
+
+const DEFAULT_PERMISSIONS: Record<string, string[]> = {
+  camera: [],
+  microphone: [],
+  geolocation: [],
+};
+
+// keep clients from splitting a directive or the header
+const INVALID_SOURCE_REGEXP = /[;,\r\n]/;
+
+/**
+ * Key of the security headers of a response on the context,
+ * the error handler sets them again on error responses.
+ */
+export const SECURITY_HEADERS: unique symbol = Symbol(
+  "context#securityHeaders"
+);
+
+/**
+ * Set security headers on every response, errors included.
+ *
+ *    app.use(securityHeaders({
+ *      contentSecurityPolicy: {
+ *        directives: { imgSrc: ["'self'", 'data:'] },
+ *        nonce: true,
+ *      },
+ *    }));
+ *
+ *    // in a template
+ *    `<script nonce="${ctx.state.cspNonce}">...</script>`
+ */
+export function securityHeaders(opts: SecurityHeadersOptions = {}) {
+  const headers: Record<string, string> = {};
+  if (opts.noSniff !== false) {
+    headers["X-Content-Type-Options"] = "nosniff";
+  }
+  const referrerPolicy =
+    opts.referrerPolicy === undefined ? "no-referrer" : opts.referrerPolicy;
+  if (referrerPolicy) {
+    headers["Referrer-Policy"] = ([] as string[])
+      .concat(referrerPolicy)
+      .join(",");
+  }
+  const crossOrigin = {
+    "Cross-Origin-Opener-Policy": opts.crossOriginOpenerPolicy,
+    "Cross-Origin-Embedder-Policy": opts.crossOriginEmbedderPolicy,
+    "Cross-Origin-Resource-Policy": opts.crossOriginResourcePolicy,
+  };
+  const crossOriginDefaults: Record<string, string | false> = {
+    "Cross-Origin-Opener-Policy": "same-origin",
+    "Cross-Origin-Embedder-Policy": false,
+    "Cross-Origin-Resource-Policy": "same-origin",
+  };
+  for (const [name, value] of Object.entries(crossOrigin)) {
+    const policy = value === undefined ? crossOriginDefaults[name] : value;
+    if (policy) {
+      headers[name] = policy;
+    }
+  }
+  const permissions =
+    opts.permissionsPolicy === undefined
+      ? DEFAULT_PERMISSIONS
+      : opts.permissionsPolicy;
+  if (permissions) {
+    headers["Permissions-Policy"] = formatPermissionsPolicy(permissions);
+  }
+  const hsts = opts.hsts === false ? undefined : formatHsts(opts.hsts || {});
+  const csp = opts.contentSecurityPolicy
+    ? compileCsp(opts.contentSecurityPolicy)
+    : undefined;
+
+  return (ctx: Context, next: () => Promise<any>) => {
+    const set: Record<string, string> = { ...headers };
+    if (hsts && ctx.request.secure) {
+      set["Strict-Transport-Security"] = hsts;
+    }
+    if (csp) {
+      Object.assign(set, csp(ctx));
+    }
+    ctx.set(set);
+    ctx[SECURITY_HEADERS] = { ...ctx[SECURITY_HEADERS], ...set };
+    return next();
+  };
+}
+
+/**
+ * Content-Security-Policy middleware, for policies which differ
+ * between parts of the app or to send an enforced and a
+ * report-only policy side by side. Both share the nonce.
+ *
+ *    router.get('/admin', contentSecurityPolicy({
+ *      directives: { scriptSrc: ["'self'"] },
+ *      reportOnly: true,
+ *      reportUri: '/csp-report',
+ *    }), admin);
+ */
+export function contentSecurityPolicy(opts: CspOptions = {}) {
+  const csp = compileCsp(opts);
+  return (ctx: Context, next: () => Promise<any>) => {
+    const set = csp(ctx);
+    ctx.set(set);
+    ctx[SECURITY_HEADERS] = { ...ctx[SECURITY_HEADERS], ...set };
+    return next();
+  };
+}
+
+/**
+ * Build a policy string from `directives`, with `nonce` added
+ * to the directives of `nonceDirectives`.
+ *
+ *    buildCsp({ defaultSrc: "'self'", upgradeInsecureRequests: true });
+ *    // => "default-src 'self'; upgrade-insecure-requests"
+ */
+export function buildCsp(
+  directives: CspDirectives,
+  ctx?: Context,
+  nonce?: string,
+  nonceDirectives: string[] = NONCE_DIRECTIVES
+): string {
+  const sources = new Map<string, string[] | true>();
+  for (const key of Object.keys(directives)) {
+    let value = directives[key];
+    if (typeof value === "function") {
+      if (!ctx) {
+        throw new TypeError(`CSP directive "${key}" needs a context`);
+      }
+      value = value(ctx);
+    }
+    if (value === false) {
+      continue;
+    }
+    const name = directiveName(key);
+    if (value === true) {
+      sources.set(name, true);
+      continue;
+    }
+    const list = ([] as string[]).concat(value).filter(Boolean);
+    list.forEach((source) => {
+      if (INVALID_SOURCE_REGEXP.test(source)) {
+        throw new TypeError(`invalid source ${source} in CSP "${name}"`);
+      }
+    });
+    sources.set(name, list);
+  }
+
+  if (nonce) {
+    const fallback = sources.get("default-src");
+    for (const name of nonceDirectives) {
+      let list = sources.get(name);
+      if (list === undefined) {
+        // the directive replaces default-src, start from its sources
+        list = Array.isArray(fallback) ? fallback.slice() : [];
+        sources.set(name, list);
+      }
+      if (Array.isArray(list)) {
+        list.push(`'nonce-${nonce}'`);
+      }
+    }
+  }
+
+  const parts: string[] = [];
+  sources.forEach((list, name) => {
+    parts.push(
+      list === true || !list.length ? name : `${name} ${list.join(" ")}`
+    );
+  });
+  return parts.join("; ");
+}
+
+/**
+ * Compile `opts` into the CSP headers of a request, checking
+ * the static directives upfront.
+ */
+function compileCsp(opts: CspOptions) {
+  const directives: CspDirectives = {};
+  const add = (source: CspDirectives) => {
+    Object.keys(source).forEach((key) => {
+      directives[directiveName(key)] = source[key];
+    });
+  };
+  if (opts.useDefaults !== false) {
+    add(DEFAULT_DIRECTIVES);
+  }
+  add(opts.directives || {});
+  const headers: Record<string, string> = {};
+  if (opts.reportUri) {
+    directives["report-uri"] = opts.reportUri;
+    directives["report-to"] = "csp-endpoint";
+    headers["Reporting-Endpoints"] = `csp-endpoint="${opts.reportUri}"`;
+  }
+  const dynamic = Object.keys(directives).some(
+    (key) => typeof directives[key] === "function"
+  );
+  const nonceDirectives = Array.isArray(opts.nonce)
+    ? opts.nonce.map(directiveName)
+    : NONCE_DIRECTIVES;
+  const header = opts.reportOnly
+    ? "Content-Security-Policy-Report-Only"
+    : "Content-Security-Policy";
+  const policy = dynamic ? undefined : buildCsp(directives);
+
+  return (ctx: Context): Record<string, string> => {
+    if (!opts.nonce) {
+      return { ...headers, [header]: policy || buildCsp(directives, ctx) };
+    }
+    if (!ctx.state.cspNonce) {
+      ctx.state.cspNonce = crypto.randomBytes(16).toString("base64");
+    }
+    return {
+      ...headers,
+      [header]: buildCsp(directives, ctx, ctx.state.cspNonce, nonceDirectives),
+    };
+  };
+}
+
+/**
+ * Parse a CSP violation report, either a legacy
+ * `application/csp-report` one or a Reporting API batch of
+ * `application/reports+json`, in which other report types
+ * are skipped.
+ */
+export async function parseCspReport(
+  request: Request
+): Promise<CspViolation[]> {
+  const type = request.is(
+    "application/csp-report",
+    "application/reports+json",
+    "application/json"
+  );
+  if (!type) {
+    throw createHttpError(415, `Unsupported Content-Type: ${request.type}`, {
+      type: "entity.unsupported",
+    });
+  }
+  const body = await parseJson(request, { limit: "64kb" });
+  const userAgent = request.get("User-Agent") || undefined;
+  if (Array.isArray(body)) {
+    return body
+      .filter(
+        (report) =>
+          report &&
+          report.type === "csp-violation" &&
+          report.body &&
+          typeof report.body === "object"
+      )
+      .map((report) => fromReportingApi(report, userAgent));
+  }
+  if (body && typeof body["csp-report"] === "object" && body["csp-report"]) {
+    return [fromCspReport(body["csp-report"], userAgent)];
+  }
+  throw createHttpError(400, "invalid CSP report", {
+    type: "entity.parse.failed",
+  });
+}
+
+/**
+ * Endpoint receiving CSP violation reports, answering `204`.
+ *
+ *    router.post('/csp-report', cspReport((violations) => {
+ *      violations.forEach((v) => log.warn('csp', v));
+ *    }));
+ */
+export function cspReport(
+  onReport: (violations: CspViolation[], ctx: Context) => any
+) {
+  return async (ctx: Context) => {
+    const violations = await parseCspReport(ctx.request);
+    await onReport(violations, ctx);
+    ctx.status = 204;
+  };
+}
+
+function fromCspReport(
+  report: Record<string, any>,
+  userAgent?: string
+): CspViolation {
+  return {
+    documentUrl: String(report["document-uri"] || ""),
+    blockedUrl: optionalString(report["blocked-uri"]),
+    effectiveDirective: String(
+      report["effective-directive"] || report["violated-directive"] || ""
+    ),
+    originalPolicy: optionalString(report["original-policy"]),
+    disposition: report.disposition === "report" ? "report" : "enforce",
+    referrer: optionalString(report.referrer),
+    statusCode: optionalNumber(report["status-code"]),
+    sourceFile: optionalString(report["source-file"]),
+    lineNumber: optionalNumber(report["line-number"]),
+    columnNumber: optionalNumber(report["column-number"]),
+    sample: optionalString(report["script-sample"]),
+    userAgent,
+  };
+}
+
+function fromReportingApi(
+  report: Record<string, any>,
+  userAgent?: string
+): CspViolation {
+  const body = report.body;
+  return {
+    documentUrl: String(body.documentURL || report.url || ""),
+    blockedUrl: optionalString(body.blockedURL),
+    effectiveDirective: String(body.effectiveDirective || ""),
+    originalPolicy: optionalString(body.originalPolicy),
+    disposition: body.disposition === "report" ? "report" : "enforce",
+    referrer: optionalString(body.referrer),
+    statusCode: optionalNumber(body.statusCode),
+    sourceFile: optionalString(body.sourceFile),
+    lineNumber: optionalNumber(body.lineNumber),
+    columnNumber: optionalNumber(body.columnNumber),
+    sample: optionalString(body.sample),
+    userAgent: optionalString(report.user_agent) || userAgent,
+  };
+}
+
+function optionalString(value: unknown) {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+function optionalNumber(value: unknown) {
+  return typeof value === "number" && Number.isFinite(value)
+    ? value
+    : undefined;
+}
+
+/**
+ * `scriptSrc` -> `script-src`
+ */
+function directiveName(key: string) {
+  return key.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+}
+
+function formatHsts(opts: HstsOptions) {
+  const maxAge = opts.maxAge === undefined ? 15552000 : opts.maxAge;
+  let value = `max-age=${Math.round(maxAge)}`;
+  if (opts.includeSubDomains !== false) {
+    value += "; includeSubDomains";
+  }
+  if (opts.preload) {
+    value += "; preload";
+  }
+  return value;
+}
+
+/**
+ * `camera=(), geolocation=(self "https://maps.example.com")`
+ */
+function formatPermissionsPolicy(features: Record<string, string[]>) {
+  return Object.keys(features)
+    .map((feature) => {
+      const allowlist = features[feature].map((origin) =>
+        origin === "self" || origin === "*" ? origin : `"${origin}"`
+      );
+      return `${directiveName(feature)}=(${allowlist.join(" ")})`;
+    })
+    .join(", ");
+}
@@ -0,0 +1,381 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { getType } from "./common";
+import type { Context } from "./context";
+import { createHttpError } from "./errors";
+import { etag } from "./etag";
+
+export interface SendOptions {
+  /**
+   * Root directory to restrict file access.
+   */
+  root?: string;
+  /**
+   * Name of the index file served for directories,
+   * defaults to `"index.html"`, `false` to disable.
+   */
+  index?: string | false;
+  /**
+   * Allow transfer of hidden files (dotfiles), defaults to `false`.
+   */
+  hidden?: boolean;
+  /**
+   * Extensions tried when the path has none, e.g. `["html"]`.
+   */
+  extensions?: string[] | false;
+  /**
+   * Serve `.br` and `.gz` siblings when the client accepts them,
+   * both default to `true`.
+   */
+  brotli?: boolean;
+  gzip?: boolean;
+  /**
+   * Browser cache max-age in milliseconds, defaults to `0`.
+   */
+  maxAge?: number;
+  immutable?: boolean;
+  /**
+   * Answer `Range` requests, defaults to `true`.
+   */
+  acceptRanges?: boolean;
+  /**
+   * Serve as a download, with the given file name or the file's.
+   */
+  attachment?: boolean | string;
+  setHeaders?: (ctx: Context, file: string, stats: fs.Stats) => void;
+}
+
+export interface ServeOptions extends SendOptions {
+  /**
+   * Let downstream middleware respond first.
+   */
+  defer?: boolean;
+}
+
+// cap the parts of a multipart/byteranges response
+const MAX_RANGES = 32;
+
+/**
+ * Send the file at `filePath` below `opts.root`, resolving to the
+ * path that was served, or `undefined` when the path was skipped
+ * (hidden file, directory without index).
+ *
+ *    await send(ctx, ctx.path, { root: __dirname + '/public' });
+ */
+export async function send(
+  ctx: Context,
+  filePath: string,
+  opts: SendOptions = {}
+): Promise<string | undefined> {
+  const root = path.resolve(opts.root || ".");
+  const index = opts.index === undefined ? "index.html" : opts.index;
+  const trailingSlash = filePath[filePath.length - 1] === "/";
+
+  try {
+    filePath = decodeURIComponent(filePath);
+  } catch (err) {
+    throw createHttpError(400, "failed to decode");
+  }
+
+  if (index && trailingSlash) {
+    filePath += index;
+  }
+
+  filePath = resolvePath(
+    root,
+    filePath.slice(path.parse(filePath).root.length)
+  );
+
+  // hide dotfiles
+  if (!opts.hidden && isHidden(root, filePath)) {
+    return;
+  }
+
+  let encodingExt = "";
+  // serve brotli file when possible otherwise gzipped file when possible
+  if (
+    opts.brotli !== false &&
+    ctx.acceptsEncodings("br", "identity") === "br" &&
+    (await exists(`${filePath}.br`))
+  ) {
+    filePath = `${filePath}.br`;
+    ctx.set("Content-Encoding", "br");
+    encodingExt = ".br";
+  } else if (
+    opts.gzip !== false &&
+    ctx.acceptsEncodings("gzip", "identity") === "gzip" &&
+    (await exists(`${filePath}.gz`))
+  ) {
+    filePath = `${filePath}.gz`;
+    ctx.set("Content-Encoding", "gzip");
+    encodingExt = ".gz";
+  }
+  if (encodingExt) {
+    ctx.vary("Accept-Encoding");
+  }
+
+  if (opts.extensions && !path.extname(filePath)) {
+    for (const ext of opts.extensions) {
+      const candidate = `${filePath}.${ext.replace(/^\./, "")}`;
+      if (await exists(candidate)) {
+        filePath = candidate;
+        break;
+      }
+    }
+  }
+
+  let stats: fs.Stats;
+  try {
+    stats = await fs.promises.stat(filePath);
+
+    // format the path to serve static file servers
+    // and not require a trailing slash for directories,
+    // so that you can do both `/directory` and `/directory/`
+    if (stats.isDirectory()) {
+      if (!index) {
+        return;
+      }
+      filePath = path.join(filePath, index);
+      stats = await fs.promises.stat(filePath);
+    }
+  } catch (err: any) {
+    const notfound = ["ENOENT", "ENAMETOOLONG", "ENOTDIR"];
+    if (notfound.indexOf(err.code) !== -1) {
+      throw createHttpError(404, { expose: false, code: err.code });
+    }
+    throw createHttpError(500, err);
+  }
+
+  const type = path.extname(path.basename(filePath, encodingExt));
+  ctx.status = 200;
+  ctx.type = type;
+  ctx.lastModified = stats.mtime;
+  ctx.etag = etag(stats);
+  if (!ctx.response.has("Cache-Control")) {
+    const directives = [`max-age=${Math.floor((opts.maxAge || 0) / 1000)}`];
+    if (opts.immutable) {
+      directives.push("immutable");
+    }
+    ctx.set("Cache-Control", directives.join(","));
+  }
+  if (opts.attachment) {
+    ctx.attachment(
+      typeof opts.attachment === "string"
+        ? opts.attachment
+        : path.basename(filePath, encodingExt)
+    );
+  }
+  if (opts.setHeaders) {
+    opts.setHeaders(ctx, filePath, stats);
+  }
+
+  if (ctx.fresh) {
+    ctx.status = 304;
+    return filePath;
+  }
+
+  const size = stats.size;
+  let ranges: { start: number; end: number }[] | undefined;
+  if (opts.acceptRanges !== false) {
+    ctx.set("Accept-Ranges", "bytes");
+    const header = ctx.get("Range");
+    if (header && isRangeFresh(ctx, stats)) {
+      const parsed = parseRange(size, header);
+      if (parsed === -1) {
+        throw createHttpError(416, {
+          headers: { "Content-Range": `bytes */${size}` },
+        });
+      }
+      ranges = parsed;
+    }
+  }
+
+  if (!ranges) {
+    ctx.length = size;
+    ctx.body = fs.createReadStream(filePath);
+    return filePath;
+  }
+
+  ctx.status = 206;
+  if (ranges.length === 1) {
+    const { start, end } = ranges[0];
+    ctx.set("Content-Range", `bytes ${start}-${end}/${size}`);
+    ctx.length = end - start + 1;
+    ctx.body = fs.createReadStream(filePath, { start, end });
+    return filePath;
+  }
+
+  const boundary = crypto.randomBytes(12).toString("hex");
+  const contentType = getType(type) || "application/octet-stream";
+  const heads = ranges.map(
+    ({ start, end }) =>
+      `\r\n--${boundary}\r\nContent-Type: ${contentType}\r\n` +
+      `Content-Range: bytes ${start}-${end}/${size}\r\n\r\n`
+  );
+  const tail = `\r\n--${boundary}--\r\n`;
+  ctx.set("Content-Type", `multipart/byteranges; boundary=${boundary}`);
+  ctx.length = ranges.reduce(
+    (sum, { start, end }, i) =>
+      sum + Buffer.byteLength(heads[i]) + end - start + 1,
+    Buffer.byteLength(tail)
+  );
+  const file = filePath;
+  const parts = ranges;
+  ctx.body = Readable.from(
+    (async function* () {
+      for (let i = 0; i < parts.length; i++) {
+        yield Buffer.from(heads[i]);
+        yield* fs.createReadStream(file, parts[i]);
+      }
+      yield Buffer.from(tail);
+    })()
+  );
+  return filePath;
+}
+
+/**
+ * Static file serving middleware for `root`.
+ *
+ *    app.use(serve(__dirname + '/public', { maxAge: 86400000 }));
+ */
+export function serve(root: string, opts: ServeOptions = {}) {
+  const options = { index: "index.html", ...opts, root };
+  return async (ctx: Context, next: () => Promise<any>) => {
+    if (ctx.method !== "HEAD" && ctx.method !== "GET") {
+      return next();
+    }
+
+    if (options.defer) {
+      await next();
+      // response is already handled
+      if (ctx.body != null || ctx.status !== 404) {
+        return;
+      }
+    }
+
+    let done: string | undefined;
+    try {
+      done = await send(ctx, ctx.path || "/", options);
+    } catch (err: any) {
+      if (err.status !== 404) {
+        throw err;
+      }
+    }
+
+    if (!done && !options.defer) {
+      await next();
+    }
+  };
+}
+
+/**
+ * Parse a `Range` header into satisfiable, combined ranges.
+ * Returns `-1` when none is satisfiable and `undefined` when
+ * the header should be ignored.
+ */
+function parseRange(size: number, header: string) {
+  const index = header.indexOf("=");
+  if (index === -1 || header.slice(0, index).trim() !== "bytes") {
+    return;
+  }
+  const ranges: { start: number; end: number }[] = [];
+  for (const spec of header.slice(index + 1).split(",")) {
+    const match = /^\s*(\d*)\s*-\s*(\d*)\s*$/.exec(spec);
+    if (!match || (!match[1] && !match[2])) {
+      // malformed header
+      return;
+    }
+    let start: number;
+    let end: number;
+    if (!match[1]) {
+      // suffix range, the last N bytes
+      start = Math.max(size - parseInt(match[2], 10), 0);
+      end = size - 1;
+    } else {
+      start = parseInt(match[1], 10);
+      end = match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1;
+    }
+    if (start > end || start >= size) {
+      continue;
+    }
+    ranges.push({ start, end });
+  }
+  if (!ranges.length) {
+    return -1;
+  }
+
+  // combine overlapping and adjacent ranges
+  const sorted = ranges.slice().sort((a, b) => a.start - b.start);
+  const combined = [sorted[0]];
+  for (const range of sorted.slice(1)) {
+    const last = combined[combined.length - 1];
+    if (range.start > last.end + 1) {
+      combined.push(range);
+    } else if (range.end > last.end) {
+      last.end = range.end;
+    }
+  }
+  // too many parts is more likely abuse than a real client
+  if (combined.length > MAX_RANGES) {
+    return;
+  }
+  return combined;
+}
+
+/**
+ * Check `If-Range` against the validators of the file, a range
+ * is only served for an unchanged representation.
+ */
+function isRangeFresh(ctx: Context, stats: fs.Stats) {
+  const ifRange = ctx.get("If-Range");
+  if (!ifRange) {
+    return true;
+  }
+  // entity tags need a strong comparison, ours are weak
+  if (ifRange.indexOf('"') !== -1) {
+    return ifRange === ctx.etag && !ifRange.startsWith("W/");
+  }
+  const date = Date.parse(ifRange);
+  return (
+    !isNaN(date) &&
+    Math.floor(stats.mtime.getTime() / 1000) <= Math.floor(date / 1000)
+  );
+}
+
+/**
+ * Resolve `relative` below `root`, refusing paths that escape it.
+ */
+function resolvePath(root: string, relative: string) {
+  if (relative.indexOf("\0") !== -1) {
+    throw createHttpError(400, "Malicious Path");
+  }
+  if (path.isAbsolute(relative) || /^[a-zA-Z]:/.test(relative)) {
+    throw createHttpError(400, "Malicious Path");
+  }
+  const resolved = path.resolve(
+    root,
+    path.normalize(`.${path.sep}${relative}`)
+  );
+  if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+    throw createHttpError(403);
+  }
+  return resolved;
+}
+
+/**
+ * Check if any segment of `filePath` below `root` is a dotfile.
+ */
+function isHidden(root: string, filePath: string) {
+  const segments = filePath.slice(root.length).split(path.sep);
+  return segments.some((segment) => segment[0] === ".");
+}
+
+async function exists(filePath: string) {
+  try {
+    return (await fs.promises.stat(filePath)).isFile();
+  } catch (err) {
+    return false;
+  }
+}
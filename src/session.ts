@@ -0,0 +1,392 @@
+import crypto from "crypto";
+import LRU from "ylru";
+import type { CookieOptions } from "./cookies";
+import type { Context } from "./context";
+
+/**
+ * External storage of session data, keyed by the session ID
+ * the cookie holds. Methods may return promises.
+ */
+export interface SessionStore {
+  get(id: string, maxAge: number | "session", ctx: Context): any;
+  set(
+    id: string,
+    data: Record<string, any>,
+    maxAge: number | "session",
+    ctx: Context
+  ): any;
+  destroy(id: string, ctx: Context): any;
+}
+
+export interface SessionOptions
+  extends Omit<CookieOptions, "maxAge" | "expires"> {
+  /**
+   * Name of the session cookie, defaults to `koa.sess`.
+   */
+  key?: string;
+  /**
+   * Lifetime of the session in milliseconds, or `"session"` for
+   * a cookie which ends with the browser session. Defaults to
+   * one day.
+   */
+  maxAge?: number | "session";
+  /**
+   * Reset the expiry on every response.
+   */
+  rolling?: boolean;
+  /**
+   * Reset the expiry once less than half of it is left.
+   */
+  renew?: boolean;
+  /**
+   * Keep the data in `store` and only its ID in the cookie,
+   * by default the data is kept encrypted in the cookie.
+   */
+  store?: SessionStore;
+  /**
+   * Generate session IDs for `store`.
+   */
+  genid?: (ctx: Context) => string;
+}
+
+/**
+ * Key of the session handler on the context.
+ */
+export const SESSION: unique symbol = Symbol("context#session");
+
+const META: unique symbol = Symbol("session#meta");
+const ONE_DAY = 24 * 60 * 60 * 1000;
+
+interface SessionMeta {
+  handler: SessionHandler;
+  isNew: boolean;
+  maxAge: number | "session";
+  expire?: number;
+  // forced by `save()` or `regenerate()`
+  save: boolean;
+}
+
+/**
+ * Data of `ctx.session`, its own enumerable properties
+ * are what gets saved.
+ *
+ *    ctx.session.views = (ctx.session.views || 0) + 1;
+ */
+export class Session {
+  [key: string]: any;
+  private [META]: SessionMeta;
+  constructor(
+    handler: SessionHandler,
+    data: Record<string, any> = {},
+    isNew: boolean = true
+  ) {
+    this[META] = {
+      handler,
+      isNew,
+      maxAge: data._maxAge || handler.opts.maxAge,
+      expire: data._expire,
+      save: false,
+    };
+    for (const key of Object.keys(data)) {
+      if (key !== "_maxAge" && key !== "_expire") {
+        this[key] = data[key];
+      }
+    }
+  }
+  /**
+   * Whether the session was created by this request.
+   */
+  public get isNew(): boolean {
+    return this[META].isNew;
+  }
+  /**
+   * Lifetime of this session, overriding the option.
+   */
+  public get maxAge(): number | "session" {
+    return this[META].maxAge;
+  }
+  public set maxAge(val: number | "session") {
+    this[META].maxAge = val;
+    this[META].save = true;
+  }
+  /**
+   * Whether the session holds any data.
+   */
+  public get populated(): boolean {
+    return Object.keys(this.toJSON()).length > 0;
+  }
+  /**
+   * Save the session on this response, changed or not.
+   */
+  public save() {
+    this[META].save = true;
+  }
+  /**
+   * Replace the session with an empty one under a new ID,
+   * to call on login against session fixation.
+   *
+   *    await ctx.session.regenerate();
+   *    ctx.session.userId = user.id;
+   */
+  public regenerate(): Promise<void> {
+    return this[META].handler.regenerate();
+  }
+  public toJSON(): Record<string, any> {
+    const data: Record<string, any> = {};
+    for (const key of Object.keys(this)) {
+      data[key] = this[key];
+    }
+    return data;
+  }
+}
+
+/**
+ * In-memory `SessionStore` evicting the least recently used
+ * sessions, for development and single process deployments.
+ */
+export class MemorySessionStore implements SessionStore {
+  private cache: LRU;
+  constructor(max: number = 10000) {
+    this.cache = new LRU(max);
+  }
+  public get(id: string) {
+    const json = this.cache.get<string>(id);
+    // a copy, changes must go through `set()`
+    return json && JSON.parse(json);
+  }
+  public set(
+    id: string,
+    data: Record<string, any>,
+    maxAge: number | "session"
+  ) {
+    const opts = typeof maxAge === "number" ? { maxAge } : undefined;
+    this.cache.set(id, JSON.stringify(data), opts);
+  }
+  public destroy(id: string) {
+    this.cache.set(id, undefined);
+  }
+}
+
+/**
+ * Session middleware, loading `ctx.session` before the
+ * downstream middleware and saving it after them when it
+ * changed. Set `ctx.session = null` to destroy it.
+ *
+ *    app.keys = ['some secret'];
+ *    app.use(session({ maxAge: 7 * ONE_DAY, renew: true }));
+ *    app.use(session({ store: new MemorySessionStore() }));
+ */
+export function session(opts: SessionOptions = {}) {
+  const options = {
+    key: "koa.sess",
+    maxAge: ONE_DAY,
+    overwrite: true,
+    httpOnly: true,
+    signed: true,
+    ...opts,
+  };
+  return async (ctx: Context, next: () => Promise<any>) => {
+    if (!ctx.app.keys.length) {
+      throw new Error(".keys required for sessions");
+    }
+    const handler = new SessionHandler(ctx, options);
+    ctx[SESSION] = handler;
+    await handler.load();
+    try {
+      await next();
+    } finally {
+      await handler.commit();
+    }
+  };
+}
+
+/**
+ * Loads and saves the session of a request.
+ */
+export class SessionHandler {
+  public ctx: Context;
+  public opts: SessionOptions & { key: string; maxAge: number | "session" };
+  // `null` once destroyed
+  private session?: Session | null;
+  private id?: string;
+  private loaded?: string;
+  constructor(ctx: Context, opts: SessionHandler["opts"]) {
+    this.ctx = ctx;
+    this.opts = opts;
+  }
+  public get(): Session | null {
+    if (this.session === undefined) {
+      this.session = new Session(this);
+    }
+    return this.session;
+  }
+  public set(val: Record<string, any> | null) {
+    if (val === null) {
+      this.session = null;
+      return;
+    }
+    this.session = new Session(
+      this,
+      val instanceof Session ? val.toJSON() : val
+    );
+    this.session.save();
+  }
+  public async load() {
+    const { ctx, opts } = this;
+    const value = ctx.cookies.get(opts.key, { signed: opts.signed });
+    if (!value) {
+      return;
+    }
+    let data: Record<string, any> | undefined;
+    if (opts.store) {
+      data = await opts.store.get(value, opts.maxAge, ctx);
+    } else {
+      data = decrypt(value, ctx.app.keys);
+    }
+    if (!data || typeof data !== "object") {
+      return;
+    }
+    if (typeof data._expire === "number" && data._expire < Date.now()) {
+      return;
+    }
+    // unknown IDs aren't reused, the client could have picked them
+    if (opts.store) {
+      this.id = value;
+    }
+    this.session = new Session(this, data, false);
+    this.loaded = JSON.stringify(this.session.toJSON());
+  }
+  public async regenerate() {
+    const { store } = this.opts;
+    if (store && this.id) {
+      await store.destroy(this.id, this.ctx);
+    }
+    this.id = undefined;
+    this.session = new Session(this);
+    this.session.save();
+  }
+  public async commit() {
+    const { ctx, opts } = this;
+    const session = this.session;
+    if (session === null) {
+      if (opts.store && this.id) {
+        await opts.store.destroy(this.id, ctx);
+      }
+      ctx.cookies.set(opts.key, null, cookieOptions(opts, opts.maxAge));
+      return;
+    }
+    if (!session) {
+      return;
+    }
+
+    const meta = session[META];
+    const json = session.toJSON();
+    const changed = JSON.stringify(json) !== this.loaded;
+    // don't hand out cookies for sessions nothing was stored in
+    if (meta.isNew && !meta.save && !Object.keys(json).length) {
+      return;
+    }
+    let save = meta.save || changed || !!opts.rolling;
+    if (!save && opts.renew && typeof meta.maxAge === "number") {
+      save = !!meta.expire && meta.expire - Date.now() < meta.maxAge / 2;
+    }
+    if (!save) {
+      return;
+    }
+
+    const maxAge = meta.maxAge;
+    if (typeof maxAge === "number") {
+      json._expire = Date.now() + maxAge;
+    }
+    json._maxAge = maxAge;
+    let value: string;
+    if (opts.store) {
+      if (!this.id) {
+        this.id = opts.genid ? opts.genid(ctx) : generateId();
+      }
+      await opts.store.set(this.id, json, maxAge, ctx);
+      value = this.id;
+    } else {
+      value = encrypt(JSON.stringify(json), ctx.app.keys[0]);
+    }
+    ctx.cookies.set(opts.key, value, cookieOptions(opts, maxAge));
+  }
+}
+
+function cookieOptions(
+  opts: SessionHandler["opts"],
+  maxAge: number | "session"
+): CookieOptions {
+  const {
+    key,
+    maxAge: _maxAge,
+    rolling,
+    renew,
+    store,
+    genid,
+    ...cookie
+  } = opts;
+  return {
+    ...cookie,
+    maxAge: typeof maxAge === "number" ? maxAge : undefined,
+  };
+}
+
+function generateId() {
+  return crypto.randomBytes(24).toString("base64url");
+}
+
+const derivedKeys = new Map<string, Buffer>();
+
+function deriveKey(key: string): Buffer {
+  let derived = derivedKeys.get(key);
+  if (!derived) {
+    derived = Buffer.from(crypto.hkdfSync("sha256", key, "", "session", 32));
+    derivedKeys.set(key, derived);
+  }
+  return derived;
+}
+
+/**
+ * Encrypt `data` with AES-256-GCM, as `iv | tag | ciphertext`
+ * in base64url.
+ */
+function encrypt(data: string, key: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", deriveKey(key), iv);
+  const encrypted = Buffer.concat([
+    cipher.update(data, "utf8"),
+    cipher.final(),
+  ]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString(
+    "base64url"
+  );
+}
+
+/**
+ * Decrypt a cookie value with any of `keys`, `undefined`
+ * when none of them authenticates it.
+ */
+function decrypt(value: string, keys: string[]): any {
+  const raw = Buffer.from(value, "base64url");
+  if (raw.length < 28) {
+    return;
+  }
+  for (const key of keys) {
+    try {
+      const decipher = crypto.createDecipheriv(
+        "aes-256-gcm",
+        deriveKey(key),
+        raw.subarray(0, 12)
+      );
+      decipher.setAuthTag(raw.subarray(12, 28));
+      const data = Buffer.concat([
+        decipher.update(raw.subarray(28)),
+        decipher.final(),
+      ]);
+      return JSON.parse(data.toString("utf8"));
+    } catch (err) {
+      // try the next key
+    }
+  }
+}
@@ -0,0 +1,144 @@
+import { EventEmitter } from "events";
+import { OutgoingMessage } from "http";
+import onFinished from "on-finished";
+import type { Context } from "./context";
+
+export interface SseOptions {
+  /**
+   * Interval of the keep-alive comments in milliseconds,
+   * defaults to `15000`, `0` to disable.
+   */
+  heartbeat?: number;
+  /**
+   * Reconnection delay advertised to the client in milliseconds.
+   */
+  retry?: number;
+}
+
+export interface SseEvent {
+  event?: string;
+  id?: string | number;
+  /**
+   * Event payload, JSON encoded unless it is a string.
+   */
+  data?: any;
+  retry?: number;
+}
+
+/**
+ * Event sink of a `text/event-stream` response, emits
+ * `close` when the client disconnects or `close()` is called.
+ *
+ *    const sse = ctx.sse();
+ *    job.on('progress', (pct) => sse.send({ event: 'progress', data: { pct } }));
+ *    sse.on('close', () => job.off('progress'));
+ */
+export class EventSink extends EventEmitter {
+  /**
+   * `Last-Event-ID` sent by a reconnecting client.
+   */
+  public lastEventId: string;
+  public closed: boolean = false;
+  private ctx: Context;
+  private timer?: NodeJS.Timeout;
+  constructor(ctx: Context, opts: SseOptions = {}) {
+    super();
+    this.ctx = ctx;
+    this.lastEventId = ctx.request.get("Last-Event-ID");
+
+    const response = ctx.response;
+    response.status = 200;
+    response.set("Content-Type", "text/event-stream; charset=utf-8");
+    response.set("Cache-Control", "no-cache, no-transform");
+    // ask nginx not to buffer the stream
+    response.set("X-Accel-Buffering", "no");
+    if (ctx.req.httpVersionMajor < 2) {
+      response.set("Connection", "keep-alive");
+    }
+    response.remove("Content-Length");
+    ctx.compress = false;
+    // events are written as they come, not by the response handler
+    ctx.respond = false;
+
+    const socket = ctx.req.socket;
+    if (socket && typeof socket.setNoDelay === "function") {
+      socket.setNoDelay(true);
+    }
+    response.flushHeaders();
+
+    if (opts.retry !== undefined) {
+      this.write(`retry: ${Math.floor(opts.retry)}\n\n`);
+    }
+    const heartbeat = opts.heartbeat === undefined ? 15000 : opts.heartbeat;
+    if (heartbeat > 0) {
+      this.timer = setInterval(() => this.comment(), heartbeat);
+      this.timer.unref();
+    }
+    onFinished(ctx.res as OutgoingMessage, () => this.cleanup());
+  }
+  /**
+   * Send an event, or a plain `data` string. Returns `false`
+   * when the sink is closed or the client can't keep up.
+   *
+   *    sse.send({ event: 'done', id: 42, data: { ok: true } });
+   */
+  public send(event: SseEvent | string): boolean {
+    const message: SseEvent =
+      typeof event === "string" ? { data: event } : event;
+    const { event: name, id, data, retry } = message;
+    let chunk = "";
+    if (name) {
+      chunk += `event: ${stripNewlines(name)}\n`;
+    }
+    if (id !== undefined) {
+      chunk += `id: ${stripNewlines(String(id))}\n`;
+    }
+    if (retry !== undefined) {
+      chunk += `retry: ${Math.floor(retry)}\n`;
+    }
+    if (data !== undefined) {
+      const text = typeof data === "string" ? data : JSON.stringify(data);
+      for (const line of text.split(/\r\n|\r|\n/)) {
+        chunk += `data: ${line}\n`;
+      }
+    }
+    return this.write(`${chunk}\n`);
+  }
+  /**
+   * Send a comment line, ignored by clients but keeping
+   * idle connections open through proxies.
+   */
+  public comment(text: string = "") {
+    return this.write(`:${stripNewlines(text)}\n\n`);
+  }
+  /**
+   * End the stream.
+   */
+  public close() {
+    if (this.closed) {
+      return;
+    }
+    this.ctx.res.end();
+    this.cleanup();
+  }
+  private write(chunk: string): boolean {
+    if (this.closed) {
+      return false;
+    }
+    return (this.ctx.res as OutgoingMessage).write(chunk);
+  }
+  private cleanup() {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+    this.emit("close");
+  }
+}
+
+function stripNewlines(str: string) {
+  return str.replace(/[\r\n]/g, "");
+}
@@ -0,0 +1,75 @@
+import { createHttpError } from "./errors";
+import type { Context } from "./context";
+
+export interface TimeoutOptions {
+  /**
+   * Time the request may take, in milliseconds.
+   */
+  ms: number;
+  /**
+   * Status of the timeout response, defaults to `503`,
+   * `504` suits requests waiting on an upstream.
+   */
+  status?: 503 | 504;
+}
+
+// what is used of the context, route contexts included
+type TimedContext = Pick<Context, "deadline" | "signal" | "abort">;
+
+/**
+ * Bound the time the downstream middleware may take, answering
+ * with a `503` through the error path once it is exceeded and
+ * aborting `ctx.signal`. The last timeout set wins, so a route
+ * may extend the one of the application.
+ *
+ *    router.post('/import', timeout({ ms: 120000, status: 504 }), importCsv);
+ */
+export function timeout(opts: number | TimeoutOptions) {
+  const options = typeof opts === "number" ? { ms: opts } : opts;
+  return (ctx: TimedContext, next: () => Promise<any>) =>
+    withTimeout(ctx, options, next);
+}
+
+/**
+ * Run `fn`, rejecting when `ctx.deadline` passes first.
+ */
+export function withTimeout<T>(
+  ctx: TimedContext,
+  opts: TimeoutOptions,
+  fn: () => Promise<T>
+): Promise<T> {
+  const deadline = Date.now() + opts.ms;
+  ctx.deadline = deadline;
+  return new Promise<T>((resolve, reject) => {
+    let timer: NodeJS.Timeout;
+    const expire = () => {
+      // a nested timeout moved the deadline
+      const left = (ctx.deadline || deadline) - Date.now();
+      if (left > 0) {
+        timer = setTimeout(expire, left);
+        return;
+      }
+      const err = createHttpError(opts.status || 503, "Request timed out", {
+        type: "request.timeout",
+        timeout: opts.ms,
+      });
+      ctx.abort(err);
+      reject(err);
+    };
+    timer = setTimeout(expire, opts.ms);
+    // nothing left to time once the client is gone
+    ctx.signal.addEventListener("abort", () => clearTimeout(timer));
+    Promise.resolve()
+      .then(fn)
+      .then(
+        (value) => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        (err) => {
+          clearTimeout(timer);
+          reject(err);
+        }
+      );
+  });
+}
@@ -0,0 +1,319 @@
+import { createHttpError } from "./errors";
+
+export interface ValidationIssue {
+  /**
+   * Dotted path of the failing field, like `"query.page"`
+   * or `"body.tags[1]"`.
+   */
+  path: string;
+  message: string;
+}
+
+type Cast<T> = (value: any, path: string, issues: ValidationIssue[]) => T;
+type Check = (value: any) => string | undefined;
+
+// returned by casts which recorded an issue
+const INVALID: any = Symbol("validate#invalid");
+
+const TRUE_VALUES = ["true", "1", "on", "yes"];
+const FALSE_VALUES = ["false", "0", "off", "no"];
+
+/**
+ * Schema of a single value, built with the `schema` helpers.
+ * Strings are coerced to the schema type, so query, params
+ * and headers validate like parsed JSON bodies.
+ *
+ *    schema.integer().min(1).default(1);
+ *    schema.array(schema.string().max(20)).optional();
+ */
+export class Schema<T> {
+  public readonly type: string;
+  private cast: Cast<T>;
+  private checks: Check[] = [];
+  private isOptional = false;
+  private defaultValue?: T;
+  constructor(type: string, cast: Cast<T>) {
+    this.type = type;
+    this.cast = cast;
+  }
+  /**
+   * Allow the value to be missing.
+   */
+  public optional(): Schema<T | undefined> {
+    this.isOptional = true;
+    return this;
+  }
+  /**
+   * Value used when it is missing.
+   */
+  public default(value: T): Schema<T> {
+    this.defaultValue = value;
+    return this;
+  }
+  /**
+   * Minimum of a number, or length of a string or an array.
+   */
+  public min(n: number): this {
+    return this.check((value) =>
+      size(value) < n ? `must be at least ${n}${unit(value)}` : undefined
+    );
+  }
+  /**
+   * Maximum of a number, or length of a string or an array.
+   */
+  public max(n: number): this {
+    return this.check((value) =>
+      size(value) > n ? `must be at most ${n}${unit(value)}` : undefined
+    );
+  }
+  /**
+   * Require strings to match `regexp`.
+   */
+  public pattern(regexp: RegExp, message?: string): this {
+    return this.check((value) =>
+      regexp.test(value) ? undefined : message || `must match ${regexp}`
+    );
+  }
+  /**
+   * Custom check of the coerced value.
+   *
+   *    schema.string().refine((s) => s === s.trim(), "must be trimmed");
+   */
+  public refine(fn: (value: T) => boolean, message: string): this {
+    return this.check((value) => (fn(value) ? undefined : message));
+  }
+  /**
+   * Coerce and check `value`, recording failures in `issues`.
+   */
+  public run(value: unknown, path: string, issues: ValidationIssue[]): T {
+    if (value === undefined || value === null || value === "") {
+      if (this.defaultValue !== undefined) {
+        return this.defaultValue;
+      }
+      if (!this.isOptional) {
+        issues.push({ path, message: "is required" });
+      }
+      return undefined as any;
+    }
+    const result = this.cast(value, path, issues);
+    if (result === INVALID) {
+      return undefined as any;
+    }
+    for (const check of this.checks) {
+      const message = check(result);
+      if (message) {
+        issues.push({ path, message });
+        break;
+      }
+    }
+    return result;
+  }
+  private check(fn: Check): this {
+    this.checks.push(fn);
+    return this;
+  }
+}
+
+export type Shape = Record<string, Schema<any>>;
+
+export type Infer<S> = S extends Schema<infer T>
+  ? T
+  : S extends Shape
+  ? { [K in keyof S]: Infer<S[K]> }
+  : never;
+
+/**
+ * Schemas of the request parts passed to `request.validate()`.
+ */
+export interface RequestSchema {
+  query?: Shape;
+  params?: Shape;
+  body?: Shape | Schema<any>;
+  headers?: Shape;
+}
+
+export type RequestInput = { [K in keyof RequestSchema]?: unknown };
+
+export type Validated<S extends RequestSchema> = {
+  [K in keyof S]: Infer<S[K]>;
+};
+
+function primitive<T>(
+  type: string,
+  message: string,
+  coerce: (value: any) => T | undefined
+) {
+  return new Schema<T>(type, (value, path, issues) => {
+    const result = coerce(value);
+    if (result === undefined) {
+      issues.push({ path, message });
+      return INVALID;
+    }
+    return result;
+  });
+}
+
+function toNumber(value: any) {
+  if (typeof value === "string" && value.trim()) {
+    value = Number(value);
+  }
+  return typeof value === "number" && Number.isFinite(value)
+    ? value
+    : undefined;
+}
+
+function object<S extends Shape>(shape: S): Schema<Infer<S>> {
+  return new Schema("object", (value, path, issues) => {
+    if (typeof value !== "object" || Array.isArray(value)) {
+      issues.push({ path, message: "must be an object" });
+      return INVALID;
+    }
+    return runShape(shape, value, path, issues);
+  });
+}
+
+/**
+ * Builders of the schema DSL.
+ *
+ *    const { query, body } = ctx.request.validate(
+ *      { body: await ctx.request.json() },
+ *      {
+ *        query: { page: schema.integer().min(1).default(1) },
+ *        body: { name: schema.string().max(100), tags: schema.array(schema.string()) },
+ *      }
+ *    );
+ */
+export const schema = {
+  string: () =>
+    primitive<string>("string", "must be a string", (value) =>
+      typeof value === "string" ||
+      typeof value === "number" ||
+      typeof value === "boolean"
+        ? String(value)
+        : undefined
+    ),
+  number: () => primitive<number>("number", "must be a number", toNumber),
+  integer: () =>
+    primitive<number>("integer", "must be an integer", (value) => {
+      const n = toNumber(value);
+      return n !== undefined && Number.isInteger(n) ? n : undefined;
+    }),
+  boolean: () =>
+    primitive<boolean>("boolean", "must be a boolean", (value) => {
+      if (typeof value === "boolean") {
+        return value;
+      }
+      const str = String(value).toLowerCase();
+      if (TRUE_VALUES.includes(str)) {
+        return true;
+      }
+      return FALSE_VALUES.includes(str) ? false : undefined;
+    }),
+  date: () =>
+    primitive<Date>("date", "must be a date", (value) => {
+      const date =
+        value instanceof Date
+          ? value
+          : typeof value === "string" || typeof value === "number"
+          ? new Date(value)
+          : undefined;
+      return date && !isNaN(date.getTime()) ? date : undefined;
+    }),
+  /**
+   * One of `values`, compared as strings so `"1"` matches `1`.
+   */
+  enum: <V extends string | number | boolean>(values: readonly V[]) =>
+    primitive<V>("enum", `must be one of ${values.join(", ")}`, (value) =>
+      values.find((item) => String(item) === String(value))
+    ),
+  /**
+   * A single value is wrapped, as `?tag=a` parses as a string.
+   */
+  array: <T>(item: Schema<T>): Schema<T[]> =>
+    new Schema("array", (value, path, issues) => {
+      const list: unknown[] = Array.isArray(value) ? value : [value];
+      return list.map((entry, i) => item.run(entry, `${path}[${i}]`, issues));
+    }),
+  object,
+};
+
+/**
+ * Validate `input` against `schema`, collecting the issues of
+ * every field before throwing a `400` with them as `errors`.
+ * Only the fields of the schema are returned.
+ */
+export function validate<S extends RequestSchema>(
+  input: RequestInput,
+  schema: S
+): Validated<S> {
+  const issues: ValidationIssue[] = [];
+  const result: Record<string, unknown> = {};
+  for (const key of Object.keys(schema)) {
+    const part: Shape | Schema<any> = schema[key];
+    let value: any = input[key];
+    if (key === "headers" && value) {
+      value = lowercaseKeys(value);
+    }
+    result[key] =
+      part instanceof Schema
+        ? part.run(value, key, issues)
+        : runShape(
+            key === "headers" ? lowercaseKeys(part) : part,
+            value || {},
+            key,
+            issues
+          );
+  }
+  if (issues.length) {
+    const fields = issues.map((issue) => `${issue.path} ${issue.message}`);
+    throw createHttpError(400, `Invalid request: ${fields.join(", ")}`, {
+      type: "request.validation.failed",
+      errors: issues,
+    });
+  }
+  return result as Validated<S>;
+}
+
+function runShape(
+  shape: Shape,
+  value: any,
+  path: string,
+  issues: ValidationIssue[]
+) {
+  const result: Record<string, unknown> = {};
+  for (const key of Object.keys(shape)) {
+    const item = Object.prototype.hasOwnProperty.call(value, key)
+      ? value[key]
+      : undefined;
+    const field = shape[key].run(item, `${path}.${key}`, issues);
+    if (field !== undefined) {
+      result[key] = field;
+    }
+  }
+  return result;
+}
+
+function lowercaseKeys<T>(obj: Record<string, T>) {
+  const result: Record<string, T> = {};
+  for (const key of Object.keys(obj)) {
+    result[key.toLowerCase()] = obj[key];
+  }
+  return result;
+}
+
+function size(value: any): number {
+  if (typeof value === "number") {
+    return value;
+  }
+  if (value instanceof Date) {
+    return value.getTime();
+  }
+  return value.length;
+}
+
+function unit(value: any) {
+  if (typeof value === "string") {
+    return " characters";
+  }
+  return Array.isArray(value) ? " items" : "";
+}
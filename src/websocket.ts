@@ -0,0 +1,608 @@
+import crypto from "crypto";
+import { EventEmitter } from "events";
+import { IncomingMessage, ServerResponse } from "http";
+import { Socket } from "net";
+import { Duplex } from "stream";
+import zlib from "zlib";
+import { bytes } from "./common";
+import type { Context } from "./context";
+import { createHttpError } from "./errors";
+
+export interface WebSocketOptions {
+  /**
+   * Subprotocols of the server, the first one offered
+   * by the client is selected.
+   */
+  protocols?: string[];
+  /**
+   * Negotiate permessage-deflate, messages smaller than
+   * `threshold` (defaults to `1024` bytes) are sent as is.
+   */
+  perMessageDeflate?: boolean | { threshold?: number };
+  /**
+   * Max size of a received message, defaults to `"1mb"`.
+   */
+  maxPayload?: number | string;
+}
+
+interface Deflate {
+  threshold: number;
+  windowBits: number;
+}
+
+// RFC 6455 section 1.3
+const GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+// RFC 7692 section 7.2.1
+const DEFLATE_TRAILER = Buffer.from([0x00, 0x00, 0xff, 0xff]);
+const KEY_REGEXP = /^[+/0-9A-Za-z]{21}[AQgw]==$/;
+
+const CONTINUATION = 0x0;
+const TEXT = 0x1;
+const BINARY = 0x2;
+const CLOSE = 0x8;
+const PING = 0x9;
+const PONG = 0xa;
+
+// wait that long for the close handshake before destroying the socket
+const CLOSE_TIMEOUT = 10000;
+
+const upgrades = new WeakMap<
+  IncomingMessage,
+  { socket: Duplex; head: Buffer }
+>();
+
+/**
+ * Keep the socket of an `upgrade` event for `acceptUpgrade()`,
+ * holding incoming data until the upgrade is accepted.
+ */
+export function prepareUpgrade(
+  req: IncomingMessage,
+  socket: Duplex,
+  head: Buffer
+) {
+  socket.pause();
+  upgrades.set(req, { socket, head });
+}
+
+/**
+ * Check if `ctx` is a WebSocket upgrade request that can be accepted.
+ */
+export function isUpgradable(ctx: Context): boolean {
+  const pending = upgrades.get(ctx.req as IncomingMessage);
+  return (
+    !!pending &&
+    pending.socket.writable &&
+    ctx.request.get("Upgrade").toLowerCase() === "websocket"
+  );
+}
+
+/**
+ * Complete the RFC 6455 handshake of `ctx` and return the WebSocket.
+ * Throws `426` when the request can't be upgraded and `400`
+ * when the handshake is invalid.
+ */
+export function acceptUpgrade(
+  ctx: Context,
+  opts: WebSocketOptions = {}
+): WebSocket {
+  if (!isUpgradable(ctx)) {
+    const headers =
+      ctx.req.httpVersionMajor < 2
+        ? { Upgrade: "websocket", Connection: "Upgrade" }
+        : undefined;
+    throw createHttpError(426, { headers });
+  }
+  const req = ctx.req as IncomingMessage;
+  const { socket, head } = upgrades.get(req)!;
+
+  if (ctx.method !== "GET") {
+    throw createHttpError(400, "Invalid WebSocket handshake method");
+  }
+  const key = ctx.request.get("Sec-WebSocket-Key").trim();
+  if (!KEY_REGEXP.test(key)) {
+    throw createHttpError(400, "Invalid Sec-WebSocket-Key header");
+  }
+  if (ctx.request.get("Sec-WebSocket-Version").trim() !== "13") {
+    throw createHttpError(426, "Unsupported WebSocket version", {
+      headers: { "Sec-WebSocket-Version": "13" },
+    });
+  }
+
+  const offered = splitList(ctx.request.get("Sec-WebSocket-Protocol"));
+  const protocol = offered.find(
+    (name) => !!opts.protocols && opts.protocols.indexOf(name) !== -1
+  );
+  const deflate = opts.perMessageDeflate
+    ? negotiateDeflate(
+        ctx.request.get("Sec-WebSocket-Extensions"),
+        typeof opts.perMessageDeflate === "object"
+          ? opts.perMessageDeflate.threshold
+          : undefined
+      )
+    : undefined;
+
+  const lines = [
+    "HTTP/1.1 101 Switching Protocols",
+    "Upgrade: websocket",
+    "Connection: Upgrade",
+    `Sec-WebSocket-Accept: ${crypto
+      .createHash("sha1")
+      .update(key + GUID)
+      .digest("base64")}`,
+  ];
+  if (protocol) {
+    lines.push(`Sec-WebSocket-Protocol: ${protocol}`);
+  }
+  if (deflate) {
+    lines.push(`Sec-WebSocket-Extensions: ${deflate.extension}`);
+  }
+  // keep headers set by middleware, such as cookies
+  const headers = ctx.res.getHeaders();
+  for (const name of Object.keys(headers)) {
+    if (/^(?:content-|transfer-encoding$|connection$|upgrade$)/.test(name)) {
+      continue;
+    }
+    const value = headers[name];
+    for (const item of Array.isArray(value) ? value : [value]) {
+      lines.push(`${name}: ${item}`);
+    }
+  }
+
+  upgrades.delete(req);
+  ctx.respond = false;
+  (ctx.res as ServerResponse).detachSocket(socket as Socket);
+  socket.write(`${lines.join("\r\n")}\r\n\r\n`);
+
+  return new WebSocket(socket, head, {
+    protocol: protocol || "",
+    extensions: deflate ? deflate.extension : "",
+    deflate: deflate && deflate.params,
+    maxPayload: bytes(opts.maxPayload === undefined ? "1mb" : opts.maxPayload),
+  });
+}
+
+/**
+ * Server side of an RFC 6455 WebSocket, created by `ctx.upgrade()`.
+ *
+ * Emits `message` with the data and whether it is binary, `ping`
+ * and `pong` with their payload, `error` on socket errors and
+ * `close` with the close code and reason.
+ */
+export class WebSocket extends EventEmitter {
+  public static readonly CONNECTING = 0;
+  public static readonly OPEN = 1;
+  public static readonly CLOSING = 2;
+  public static readonly CLOSED = 3;
+  public readyState: number = WebSocket.OPEN;
+  /**
+   * Selected subprotocol and negotiated extensions.
+   */
+  public protocol: string;
+  public extensions: string;
+  private socket: Duplex;
+  private deflate?: Deflate;
+  private maxPayload: number;
+  private buffer: Buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private fragmentsLength: number = 0;
+  private fragmentOpcode: number = 0;
+  private compressed: boolean = false;
+  private closeSent: boolean = false;
+  // set once a close frame was received or the connection failed
+  private inputClosed: boolean = false;
+  private closeCode: number = 1006;
+  private closeReason: string = "";
+  private closeTimer?: NodeJS.Timeout;
+  constructor(
+    socket: Duplex,
+    head: Buffer,
+    opts: {
+      protocol: string;
+      extensions: string;
+      deflate?: Deflate;
+      maxPayload: number;
+    }
+  ) {
+    super();
+    this.socket = socket;
+    this.protocol = opts.protocol;
+    this.extensions = opts.extensions;
+    this.deflate = opts.deflate;
+    this.maxPayload = opts.maxPayload;
+
+    if (socket instanceof Socket) {
+      socket.setTimeout(0);
+      socket.setNoDelay(true);
+    }
+    socket.on("data", (chunk: Buffer) => this.receive(chunk));
+    socket.on("end", () => socket.end());
+    socket.on("close", () => this.finish());
+    socket.on("error", (err) => {
+      if (this.listenerCount("error")) {
+        this.emit("error", err);
+      }
+      socket.destroy();
+    });
+    // let the caller add listeners before the first message
+    process.nextTick(() => {
+      if (head.length) {
+        this.receive(head);
+      }
+      socket.resume();
+    });
+  }
+  /**
+   * Send a text (string) or binary (Buffer) message. Returns
+   * `false` when the socket is not open or is buffering.
+   */
+  public send(data: string | Buffer): boolean {
+    if (this.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+    const binary = typeof data !== "string";
+    let payload = binary ? (data as Buffer) : Buffer.from(data as string);
+    let compressed = false;
+    if (this.deflate && payload.length >= this.deflate.threshold) {
+      payload = zlib.deflateRawSync(payload, {
+        finishFlush: zlib.constants.Z_SYNC_FLUSH,
+        windowBits: this.deflate.windowBits,
+      });
+      payload = payload.slice(0, payload.length - DEFLATE_TRAILER.length);
+      compressed = true;
+    }
+    return this.sendFrame(binary ? BINARY : TEXT, payload, compressed);
+  }
+  public ping(data: string | Buffer = ""): boolean {
+    if (this.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+    return this.sendFrame(PING, controlPayload(data));
+  }
+  public pong(data: string | Buffer = ""): boolean {
+    if (this.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+    return this.sendFrame(PONG, controlPayload(data));
+  }
+  /**
+   * Start the close handshake, the socket is destroyed
+   * when the client does not answer in time.
+   */
+  public close(code: number = 1000, reason: string = "") {
+    if (this.readyState !== WebSocket.OPEN) {
+      return;
+    }
+    if (!isValidCloseCode(code)) {
+      throw new TypeError(`invalid close code: ${code}`);
+    }
+    this.sendClose(code, reason);
+  }
+  /**
+   * Destroy the socket without a close handshake.
+   */
+  public terminate() {
+    this.socket.destroy();
+  }
+  private receive(chunk: Buffer) {
+    if (this.inputClosed) {
+      return;
+    }
+    this.buffer = this.buffer.length
+      ? Buffer.concat([this.buffer, chunk])
+      : chunk;
+    while (this.buffer.length >= 2) {
+      const buffer = this.buffer;
+      const fin = (buffer[0] & 0x80) !== 0;
+      const rsv1 = (buffer[0] & 0x40) !== 0;
+      const opcode = buffer[0] & 0x0f;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+
+      if ((buffer[1] & 0x80) === 0) {
+        this.fail(1002, "frames must be masked");
+        return;
+      }
+      if ((buffer[0] & 0x30) !== 0) {
+        this.fail(1002, "unexpected reserved bits");
+        return;
+      }
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        const high = buffer.readUInt32BE(2);
+        // lengths above 2^53 - 1 can't be represented
+        if (high > 0x1fffff) {
+          this.fail(1009, "message too big");
+          return;
+        }
+        length = high * 0x100000000 + buffer.readUInt32BE(6);
+        offset = 10;
+      }
+      if (length > this.maxPayload) {
+        this.fail(1009, "message too big");
+        return;
+      }
+      if (buffer.length < offset + 4 + length) {
+        return;
+      }
+
+      const mask = buffer.slice(offset, offset + 4);
+      const payload = Buffer.from(
+        buffer.slice(offset + 4, offset + 4 + length)
+      );
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= mask[i & 3];
+      }
+      this.buffer = buffer.slice(offset + 4 + length);
+      if (!this.handleFrame(fin, rsv1, opcode, payload)) {
+        return;
+      }
+    }
+  }
+  /**
+   * Handle a frame, returning `false` when the connection failed.
+   */
+  private handleFrame(
+    fin: boolean,
+    rsv1: boolean,
+    opcode: number,
+    payload: Buffer
+  ): boolean {
+    if (opcode >= CLOSE) {
+      if (!fin || rsv1 || payload.length > 125) {
+        return this.fail(1002, "invalid control frame");
+      }
+      switch (opcode) {
+        case CLOSE:
+          return this.handleClose(payload);
+        case PING:
+          this.emit("ping", payload);
+          if (this.readyState === WebSocket.OPEN) {
+            this.sendFrame(PONG, payload);
+          }
+          return true;
+        case PONG:
+          this.emit("pong", payload);
+          return true;
+        default:
+          return this.fail(1002, `invalid opcode ${opcode}`);
+      }
+    }
+
+    if (opcode === CONTINUATION) {
+      if (!this.fragmentOpcode || rsv1) {
+        return this.fail(1002, "unexpected continuation frame");
+      }
+    } else if (opcode === TEXT || opcode === BINARY) {
+      if (this.fragmentOpcode) {
+        return this.fail(1002, "expected a continuation frame");
+      }
+      if (rsv1 && !this.deflate) {
+        return this.fail(1002, "unexpected compressed frame");
+      }
+      this.fragmentOpcode = opcode;
+      this.compressed = rsv1;
+    } else {
+      return this.fail(1002, `invalid opcode ${opcode}`);
+    }
+
+    this.fragmentsLength += payload.length;
+    if (this.fragmentsLength > this.maxPayload) {
+      return this.fail(1009, "message too big");
+    }
+    this.fragments.push(payload);
+    if (!fin) {
+      return true;
+    }
+
+    let data = Buffer.concat(this.fragments);
+    const binary = this.fragmentOpcode === BINARY;
+    const compressed = this.compressed;
+    this.fragments = [];
+    this.fragmentsLength = 0;
+    this.fragmentOpcode = 0;
+    this.compressed = false;
+    // the close handshake started, drop late messages
+    if (this.readyState !== WebSocket.OPEN) {
+      return true;
+    }
+
+    if (compressed) {
+      try {
+        data = zlib.inflateRawSync(Buffer.concat([data, DEFLATE_TRAILER]), {
+          finishFlush: zlib.constants.Z_SYNC_FLUSH,
+          maxOutputLength: this.maxPayload,
+        });
+      } catch (err: any) {
+        return err instanceof RangeError
+          ? this.fail(1009, "message too big")
+          : this.fail(1007, "invalid compressed data");
+      }
+    }
+    if (binary) {
+      this.emit("message", data, true);
+      return true;
+    }
+    const text = decodeUtf8(data);
+    if (text === undefined) {
+      return this.fail(1007, "invalid UTF-8 sequence");
+    }
+    this.emit("message", text, false);
+    return true;
+  }
+  private handleClose(payload: Buffer): boolean {
+    let code = 1005;
+    let reason = "";
+    if (payload.length === 1) {
+      return this.fail(1002, "invalid close frame");
+    }
+    if (payload.length >= 2) {
+      code = payload.readUInt16BE(0);
+      if (!isValidCloseCode(code)) {
+        return this.fail(1002, `invalid close code ${code}`);
+      }
+      const text = decodeUtf8(payload.slice(2));
+      if (text === undefined) {
+        return this.fail(1007, "invalid UTF-8 sequence");
+      }
+      reason = text;
+    }
+    this.inputClosed = true;
+    this.closeCode = code;
+    this.closeReason = reason;
+    if (!this.closeSent) {
+      // echo the close frame
+      this.sendClose(code === 1005 ? undefined : code, "");
+    }
+    this.socket.end();
+    return false;
+  }
+  /**
+   * Fail the connection with close `code`, RFC 6455 section 7.1.7.
+   */
+  private fail(code: number, reason: string): false {
+    this.inputClosed = true;
+    this.buffer = Buffer.alloc(0);
+    if (!this.closeSent) {
+      this.closeCode = code;
+      this.closeReason = reason;
+      this.sendClose(code, reason);
+    }
+    this.socket.end();
+    return false;
+  }
+  private sendClose(code?: number, reason: string = "") {
+    let payload = Buffer.alloc(0);
+    if (code !== undefined) {
+      payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+      payload.writeUInt16BE(code, 0);
+      payload.write(reason, 2);
+    }
+    this.sendFrame(CLOSE, controlPayload(payload));
+    this.closeSent = true;
+    this.readyState = WebSocket.CLOSING;
+    this.closeTimer = setTimeout(() => this.socket.destroy(), CLOSE_TIMEOUT);
+    this.closeTimer.unref();
+  }
+  private sendFrame(
+    opcode: number,
+    payload: Buffer,
+    compressed: boolean = false
+  ): boolean {
+    if (!this.socket.writable) {
+      return false;
+    }
+    let header: Buffer;
+    if (payload.length < 126) {
+      header = Buffer.alloc(2);
+      header[1] = payload.length;
+    } else if (payload.length < 0x10000) {
+      header = Buffer.alloc(4);
+      header[1] = 126;
+      header.writeUInt16BE(payload.length, 2);
+    } else {
+      header = Buffer.alloc(10);
+      header[1] = 127;
+      header.writeUInt32BE(Math.floor(payload.length / 0x100000000), 2);
+      header.writeUInt32BE(payload.length >>> 0, 6);
+    }
+    header[0] = 0x80 | (compressed ? 0x40 : 0) | opcode;
+    this.socket.cork();
+    this.socket.write(header);
+    const flushed = this.socket.write(payload);
+    process.nextTick(() => this.socket.uncork());
+    return flushed;
+  }
+  private finish() {
+    if (this.closeTimer) {
+      clearTimeout(this.closeTimer);
+    }
+    if (this.readyState === WebSocket.CLOSED) {
+      return;
+    }
+    this.readyState = WebSocket.CLOSED;
+    this.emit("close", this.closeCode, this.closeReason);
+  }
+}
+
+/**
+ * Accept the first permessage-deflate offer of `header` that can be
+ * honored, without context takeover in both directions so every
+ * message is compressed on its own, RFC 7692.
+ */
+function negotiateDeflate(header: string, threshold: number = 1024) {
+  for (const offer of splitList(header)) {
+    const [name, ...parts] = offer.split(";").map((part) => part.trim());
+    if (name !== "permessage-deflate") {
+      continue;
+    }
+    const params: Record<string, string | true> = {};
+    let valid = true;
+    for (const part of parts) {
+      const [key, value] = part.split("=").map((item) => item.trim());
+      if (key in params) {
+        valid = false;
+      }
+      params[key] = value === undefined ? true : value.replace(/^"|"$/g, "");
+    }
+    let windowBits = 15;
+    for (const key of Object.keys(params)) {
+      const value = params[key];
+      if (key === "server_max_window_bits") {
+        // zlib can't produce raw streams with an 8 bit window
+        windowBits = Number(value);
+        valid = valid && windowBits >= 9 && windowBits <= 15;
+      } else if (key === "client_max_window_bits") {
+        valid =
+          valid &&
+          (value === true || (Number(value) >= 8 && Number(value) <= 15));
+      } else if (
+        key !== "server_no_context_takeover" &&
+        key !== "client_no_context_takeover"
+      ) {
+        valid = false;
+      }
+    }
+    if (!valid) {
+      continue;
+    }
+    let extension =
+      "permessage-deflate; server_no_context_takeover; client_no_context_takeover";
+    if (params.server_max_window_bits) {
+      extension += `; server_max_window_bits=${windowBits}`;
+    }
+    return { extension, params: { threshold, windowBits } };
+  }
+  return undefined;
+}
+
+function isValidCloseCode(code: number) {
+  return (
+    (code >= 1000 && code <= 1014 && [1004, 1005, 1006].indexOf(code) === -1) ||
+    (code >= 3000 && code <= 4999)
+  );
+}
+
+function controlPayload(data: string | Buffer) {
+  const payload = typeof data === "string" ? Buffer.from(data) : data;
+  // control frames carry at most 125 bytes
+  return payload.length > 125 ? payload.slice(0, 125) : payload;
+}
+
+function decodeUtf8(data: Buffer): string | undefined {
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(data);
+  } catch (err) {
+    return undefined;
+  }
+}
+
+function splitList(value: string) {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}